@@ -1,7 +1,48 @@
-import React, { useState, useMemo, useEffect, useCallback } from 'react';
-import { Selection } from './types';
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import { Selection, AnnotationClass, ImageItem, ImageDimensions, AnnotationTool, KeypointVisibility, Proposal, ImageStatus } from './types';
 import ImageSelector from './components/ImageSelector';
-import { BoundingBoxIcon, ClipboardIcon, CheckIcon, DownloadIcon, LockIcon, UnlockIcon, TrashIcon, GoogleDriveIcon } from './components/Icons';
+import ClassManager from './components/ClassManager';
+import ImageQueue from './components/ImageQueue';
+import ImportReportPanel from './components/ImportReportPanel';
+import DatasetPanel from './components/DatasetPanel';
+import CropPanel from './components/CropPanel';
+import SessionPanel from './components/SessionPanel';
+import StoragePanel from './components/StoragePanel';
+import AutoAnnotatePanel from './components/AutoAnnotatePanel';
+import QualityPanel from './components/QualityPanel';
+import EvaluationPanel from './components/EvaluationPanel';
+import ReviewPanel from './components/ReviewPanel';
+import ProjectPanel from './components/ProjectPanel';
+import ShortcutsOverlay from './components/ShortcutsOverlay';
+import StatisticsOverlay from './components/StatisticsOverlay';
+import Toasts, { Toast, ToastKind } from './components/Toasts';
+import CoordinateInput from './components/CoordinateInput';
+import { DEFAULT_CLASSES, createClass, remapDeletedClass } from './utils/classes';
+import { createImageItem, compareFileNames, getBaseName, getCurrentSelections, pushSelections, withLoadedSelections, releaseImageItem, isImageFile, isLabelFile, isJsonFile } from './utils/images';
+import { getSelectionRect, getBoundingRect, clampRect, applyRect, normalizeAngle, translateSelection, scaleSelection, getGroupBounds, clampOffset, MIN_BOX_SIZE, Rect } from './utils/geometry';
+import { formatYoloLabels } from './utils/yolo';
+import { buildCocoDataset } from './utils/coco';
+import { buildYoloDatasetZip } from './utils/datasetExport';
+import type { SplitOptions } from './utils/split';
+import { cropImageSelections, zipCropFiles, CropOptions, CropFile } from './utils/crop';
+import { importYoloFiles, importCocoFile, importPredictionFiles, ImportReport, LabelImportResult } from './utils/labelImport';
+import { DEFAULT_EVALUATION_SETTINGS, EvaluationSettings, comparePredictions } from './utils/evaluation';
+import { formatVocXml } from './utils/voc';
+import { formatYoloObbLabels, formatDotaLabels } from './utils/obb';
+import { formatYoloSegLabels } from './utils/segmentation';
+import { DEFAULT_SKELETON_ID, KEYPOINT_VISIBILITY_LABELS, formatYoloPoseLabels, getSkeletonTemplate, getTemplateKeypoints, setKeypoint } from './utils/keypoints';
+import { OUTPUT_FORMATS, OutputFormat } from './utils/formats';
+import { downloadBlob } from './utils/download';
+import { DriveAuth, DRIVE_FOLDER_MIME, isDriveMocked, createDriveProvider, downloadDriveFile, getDriveFileMeta } from './utils/drive';
+import { DRIVE_PROVIDER_ID, STORAGE_KIND_LABELS, StorageEntry, StorageProvider, getLabelPath, loadStorageEntries, toStorageEntry } from './utils/storage';
+import { createLocalFolderProvider, isLocalFolderSupported, pickLocalFolder } from './utils/localFolder';
+import { S3Config, createS3Provider } from './utils/s3';
+import { QualityIssue, QualitySettings, findQualityIssues, loadQualitySettings, saveQualitySettings } from './utils/quality';
+import { createComment, loadReviewerName, saveReviewerName } from './utils/review';
+import { Keymap, formatBinding, isTypingTarget, loadKeymap, matchShortcut, saveKeymap } from './utils/keymap';
+import { ProjectImage, ProjectLoadResult, buildProjectFile, buildProjectZip, readProjectFile } from './utils/project';
+import { SessionSummary, StorageUsage, createSessionId, deleteSession, getStorageUsage, isSessionStorageAvailable, listSessions, loadSession, saveSession } from './utils/sessionStore';
+import { KeyboardIcon, BarChartIcon, BoundingBoxIcon, ClipboardIcon, CheckIcon, DownloadIcon, LockIcon, UnlockIcon, TrashIcon, GoogleDriveIcon, UploadIcon, FolderIcon, DatabaseIcon } from './components/Icons';
 
 // FIX: Add type declarations for gapi and google to the window object.
 declare global {
@@ -23,28 +64,59 @@ declare global {
 const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
 const GOOGLE_API_KEY = process.env.GOOGLE_API_KEY;
 const SCOPES = 'https://www.googleapis.com/auth/drive.file https://www.googleapis.com/auth/drive.readonly';
+const LABEL_SUBFOLDER_STORAGE_KEY = 'bbox-annotator.labelSubfolder';
+const LEGACY_LABEL_SUBFOLDER_STORAGE_KEY = 'bbox-annotator.driveLabelSubfolder';
+const AUTOSAVE_DELAY_MS = 1000;
+const TOKEN_REFRESH_TIMEOUT_MS = 60000; // GIS may never call back, e.g. when its popup is blocked
 
+const SNAP_TO_EDGES_STORAGE_KEY = 'bbox-annotator.snapToEdges';
+const DUPLICATE_OFFSET = 10; // Image pixels between a box and its duplicate
 
-interface ImageDimensions {
-  naturalWidth: number;
-  naturalHeight: number;
-}
-
-interface DriveFileMeta {
+interface DrivePick {
   id: string;
   name: string;
-  parentId: string | null;
+  mimeType: string;
 }
 
+
 const App: React.FC = () => {
-  const [imageSrc, setImageSrc] = useState<string | null>(null);
-  const [selections, setSelections] = useState<Selection[]>([]);
-  const [fileName, setFileName] = useState<string>('');
-  const [imageDimensions, setImageDimensions] = useState<ImageDimensions | null>(null);
+  const [images, setImages] = useState<ImageItem[]>([]);
+  const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [isCopied, setIsCopied] = useState(false);
-  
-  const [history, setHistory] = useState<Selection[][]>([[]]);
-  const [historyIndex, setHistoryIndex] = useState(0);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('yolo');
+  const [tool, setTool] = useState<AnnotationTool>('box');
+  const [skeletonId, setSkeletonId] = useState(DEFAULT_SKELETON_ID);
+  const [snapToEdges, setSnapToEdges] = useState(() => localStorage.getItem(SNAP_TO_EDGES_STORAGE_KEY) === 'true');
+  const skeleton = getSkeletonTemplate(skeletonId);
+  const [importReports, setImportReports] = useState<ImportReport[]>([]);
+  const labelInputRef = useRef<HTMLInputElement>(null);
+  const [keymap, setKeymap] = useState<Keymap>(loadKeymap);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isStatisticsOpen, setIsStatisticsOpen] = useState(false);
+
+  const [classes, setClasses] = useState<AnnotationClass[]>(DEFAULT_CLASSES);
+  const [activeClassId, setActiveClassId] = useState<string | null>(DEFAULT_CLASSES[0].id);
+  // Boxes selected on the current image; ImageSelector clears it when the image changes
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Copied boxes keep the size of their image so they can be pasted onto images of other sizes
+  const clipboardRef = useRef<{ selections: Selection[]; dimensions: ImageDimensions } | null>(null);
+  // Boxes to select once the image being switched to is shown, e.g. from a quality issue
+  const pendingSelectedIdsRef = useRef<string[] | null>(null);
+  // Image to show once newly added images are in the queue
+  const pendingImageIdRef = useRef<string | null>(null);
+  const [qualitySettings, setQualitySettings] = useState<QualitySettings>(loadQualitySettings);
+  const [reviewerName, setReviewerName] = useState(loadReviewerName);
+  const [evaluationSettings, setEvaluationSettings] = useState<EvaluationSettings>(DEFAULT_EVALUATION_SETTINGS);
+
+  // Autosaved sessions (IndexedDB)
+  const [sessionId, setSessionId] = useState(createSessionId);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [restoreCandidate, setRestoreCandidate] = useState<SessionSummary | null>(null);
+  const persistedSessionIdRef = useRef<string | null>(null);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const pendingSaveRef = useRef<{ sessionId: string; run: () => void } | null>(null);
+  const currentImageIndexRef = useRef(currentImageIndex);
 
   // Google Drive State
   const [isGoogleConfigured, setIsGoogleConfigured] = useState(false);
@@ -52,10 +124,31 @@ const App: React.FC = () => {
   const [gapiReady, setGapiReady] = useState(false);
   const [gisReady, setGisReady] = useState(false);
   const [tokenClient, setTokenClient] = useState<any>(null);
-  const [driveFileMeta, setDriveFileMeta] = useState<DriveFileMeta | null>(null);
-  const [isSavingToDrive, setIsSavingToDrive] = useState(false);
   const [userProfile, setUserProfile] = useState<{name: string, picture: string} | null>(null);
+  const tokenWaitersRef = useRef<{ resolve: (token: string) => void; reject: (error: Error) => void }[]>([]);
+
+  // Storage providers (Drive, local folders, S3 buckets); Drive's is derived from the sign-in state
+  const [storageProviders, setStorageProviders] = useState<Record<string, StorageProvider>>({});
+  // Empty means labels are read and written next to each image
+  const [labelSubfolder, setLabelSubfolder] = useState(() =>
+    localStorage.getItem(LABEL_SUBFOLDER_STORAGE_KEY) ?? localStorage.getItem(LEGACY_LABEL_SUBFOLDER_STORAGE_KEY) ?? ''
+  );
+  const [isOpeningStorage, setIsOpeningStorage] = useState(false);
+  const [isSavingLabels, setIsSavingLabels] = useState(false);
 
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextToastIdRef = useRef(0);
+
+
+  // Everything below operates on the image currently shown in the editor.
+  const currentImage: ImageItem | null = images[currentImageIndex] ?? null;
+  const imageSrc = currentImage?.src ?? null;
+  const fileName = currentImage?.fileName ?? '';
+  const imageDimensions = currentImage?.dimensions ?? null;
+  const imageSource = currentImage?.source ?? null;
+  const history = currentImage?.history ?? [[]];
+  const historyIndex = currentImage?.historyIndex ?? 0;
+  const selections = useMemo(() => currentImage ? getCurrentSelections(currentImage) : [], [currentImage]);
 
   const canUndo = historyIndex > 0;
   const canRedo = historyIndex < history.length - 1;
@@ -66,6 +159,94 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // --- Session Persistence ---
+  const refreshSessions = useCallback(async () => {
+    setSessions(await listSessions());
+    setStorageUsage(await getStorageUsage());
+  }, []);
+
+  useEffect(() => {
+    if (!isSessionStorageAvailable()) return;
+    listSessions()
+      .then(list => {
+        setSessions(list);
+        setRestoreCandidate(list.find(session => session.imageCount > 0) ?? null);
+      })
+      .catch(error => console.error('Could not read saved sessions:', error));
+    getStorageUsage()
+      .then(setStorageUsage)
+      .catch(error => console.error('Could not read storage usage:', error));
+  }, []);
+
+  // Navigating alone does not save; the index is stored with the next edit
+  useEffect(() => {
+    currentImageIndexRef.current = currentImageIndex;
+  }, [currentImageIndex]);
+
+  const flushPendingSave = useCallback(() => {
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    pending?.run();
+  }, []);
+
+  // Every commitSelections (and any other queue change) produces a new `images` array, so this
+  // persists each edit once editing pauses. Writes are chained so an older snapshot never lands
+  // after a newer one, and a pending save of another session is written before switching.
+  useEffect(() => {
+    if (!isSessionStorageAvailable()) return;
+    if (pendingSaveRef.current && pendingSaveRef.current.sessionId !== sessionId) flushPendingSave();
+    // A fresh session is only created once it has content; an existing one may become empty
+    if (images.length === 0 && persistedSessionIdRef.current !== sessionId) return;
+    if (images.length > 0) setRestoreCandidate(null);
+    persistedSessionIdRef.current = sessionId;
+    const state = { images, classes, activeClassId, currentImageIndex: currentImageIndexRef.current };
+    pendingSaveRef.current = {
+      sessionId,
+      run: () => {
+        saveQueueRef.current = saveQueueRef.current
+          .then(() => saveSession(sessionId, state))
+          .then(refreshSessions)
+          .catch(error => console.error('Autosave failed:', error));
+      },
+    };
+    const timer = window.setTimeout(flushPendingSave, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [images, classes, activeClassId, sessionId, refreshSessions, flushPendingSave]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flushPendingSave);
+    return () => window.removeEventListener('pagehide', flushPendingSave);
+  }, [flushPendingSave]);
+
+  const handleOpenSession = async (id: string) => {
+    try {
+      const restored = await loadSession(id);
+      if (!restored) return;
+      images.forEach(releaseImageItem);
+      persistedSessionIdRef.current = restored.id;
+      setSessionId(restored.id);
+      setImages(restored.images);
+      setClasses(restored.classes.length > 0 ? restored.classes : DEFAULT_CLASSES);
+      setActiveClassId(restored.activeClassId);
+      setCurrentImageIndex(restored.currentImageIndex);
+      setRestoreCandidate(null);
+      setIsCopied(false);
+    } catch (error) {
+      console.error('Could not restore session:', error);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    if (!window.confirm('Delete this saved session? This cannot be undone.')) return;
+    try {
+      await deleteSession(id);
+      if (id === restoreCandidate?.id) setRestoreCandidate(null);
+      await refreshSessions();
+    } catch (error) {
+      console.error('Could not delete session:', error);
+    }
+  };
+
   // --- Google Drive Integration Hooks ---
   useEffect(() => {
     const handleGapiLoad = () => {
@@ -105,8 +286,15 @@ const App: React.FC = () => {
         client_id: GOOGLE_CLIENT_ID,
         scope: SCOPES,
         callback: async (tokenResponse: any) => {
+          // Requests waiting on a token refresh (see driveAuth) resume or fail here
+          const waiters = tokenWaitersRef.current.splice(0);
+          if (tokenResponse.error) {
+            waiters.forEach(waiter => waiter.reject(new Error(`Google sign-in failed: ${tokenResponse.error}`)));
+            return;
+          }
           if (tokenResponse.access_token) {
             window.gapi.client.setToken({ access_token: tokenResponse.access_token });
+            waiters.forEach(waiter => waiter.resolve(tokenResponse.access_token));
             setIsSignedIn(true);
             const userInfo = await fetch('https://www.googleapis.com/oauth2/v3/userinfo', {
               headers: { Authorization: `Bearer ${tokenResponse.access_token}` }
@@ -114,11 +302,53 @@ const App: React.FC = () => {
             setUserProfile({name: userInfo.name, picture: userInfo.picture});
           }
         },
+        error_callback: (error: any) => {
+          tokenWaitersRef.current.splice(0).forEach(waiter => waiter.reject(new Error(error?.message ?? 'Google sign-in was cancelled')));
+        },
       });
       setTokenClient(client);
     }
   }, [gisReady, isGoogleConfigured]);
 
+  const showToast = useCallback((kind: ToastKind, message: string) => {
+    const id = nextToastIdRef.current++;
+    setToasts(prev => [...prev, { id, kind, message }]);
+    setTimeout(() => setToasts(prev => prev.filter(toast => toast.id !== id)), kind === 'error' ? 8000 : 4000);
+  }, []);
+
+  const driveAuth: DriveAuth = {
+    getToken: () => window.gapi?.client?.getToken()?.access_token ?? '',
+    refreshToken: () => new Promise((resolve, reject) => {
+      if (!tokenClient) {
+        reject(new Error('Not signed in to Google Drive'));
+        return;
+      }
+      const waiter = {
+        resolve: (token: string) => {
+          window.clearTimeout(timer);
+          resolve(token);
+        },
+        reject: (error: Error) => {
+          window.clearTimeout(timer);
+          reject(error);
+        },
+      };
+      const timer = window.setTimeout(() => {
+        tokenWaitersRef.current = tokenWaitersRef.current.filter(other => other !== waiter);
+        reject(new Error('Google sign-in did not respond; try again'));
+      }, TOKEN_REFRESH_TIMEOUT_MS);
+      tokenWaitersRef.current.push(waiter);
+      tokenClient.requestAccessToken({ prompt: '' });
+    }),
+  };
+  const driveProvider = createDriveProvider(driveAuth);
+
+  // Images from a local folder or bucket opened in an earlier tab can only be saved locally
+  const getStorageProvider = (source: ImageItem['source']): StorageProvider | null => {
+    if (!source) return null;
+    return source.providerId === DRIVE_PROVIDER_ID ? driveProvider : storageProviders[source.providerId] ?? null;
+  };
+
   // --- Auth & Picker Handlers ---
   const handleAuthClick = () => {
     if (tokenClient) {
@@ -143,13 +373,22 @@ const App: React.FC = () => {
   };
 
   const createPicker = () => {
+      // The mock Drive server has no picker UI, so the folder id is typed in instead
+      if (isDriveMocked) {
+        const folderId = window.prompt('Folder id on the mock Drive server');
+        if (folderId) openDriveItems([{ id: folderId, name: folderId, mimeType: DRIVE_FOLDER_MIME }]);
+        return;
+      }
       if (!isGoogleConfigured) return;
-      const view = new window.google.picker.View(window.google.picker.ViewId.DOCS);
-      view.setMimeTypes("image/png,image/jpeg,image/jpg,image/webp");
+      const view = new window.google.picker.DocsView(window.google.picker.ViewId.DOCS)
+          .setIncludeFolders(true)
+          .setSelectFolderEnabled(true)
+          .setMimeTypes(`image/png,image/jpeg,image/jpg,image/webp,${DRIVE_FOLDER_MIME}`);
       const picker = new window.google.picker.PickerBuilder()
           .setAppId(GOOGLE_CLIENT_ID.split('-')[0])
           .setOAuthToken(window.gapi.client.getToken().access_token)
           .addView(view)
+          .enableFeature(window.google.picker.Feature.MULTISELECT_ENABLED)
           .setDeveloperKey(GOOGLE_API_KEY)
           .setCallback(pickerCallback)
           .build();
@@ -158,187 +397,786 @@ const App: React.FC = () => {
   
   const pickerCallback = (data: any) => {
     if (data[window.google.picker.Response.ACTION] === window.google.picker.Action.PICKED) {
-      const doc = data[window.google.picker.Response.DOCUMENTS][0];
-      const fileId = doc.id;
-      const token = window.gapi.client.getToken().access_token;
-      
-      // Fetch image content
-      fetch(`https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`, {
-        headers: { 'Authorization': `Bearer ${token}` }
-      })
-      .then(res => res.blob())
-      .then(blob => {
-        const reader = new FileReader();
-        reader.onload = e => {
-            setImageSrc(e.target?.result as string);
-            setFileName(doc.name);
-            commitSelections([]);
-        };
-        reader.readAsDataURL(blob);
-      });
-      
-      // Fetch metadata to get parent folder
-      fetch(`https://www.googleapis.com/drive/v3/files/${fileId}?fields=id,name,parents`, {
-          headers: { 'Authorization': `Bearer ${token}` }
-      })
-      .then(res => res.json())
-      .then(meta => {
-          setDriveFileMeta({
-              id: meta.id,
-              name: meta.name,
-              parentId: meta.parents ? meta.parents[0] : null
-          });
+      const docs: any[] = data[window.google.picker.Response.DOCUMENTS];
+      openDriveItems(docs.map(doc => ({ id: doc.id, name: doc.name, mimeType: doc.mimeType })));
+    }
+  };
+
+  // Loads `entries` with their YOLO labels into the queue
+  const openStorageEntries = async (provider: StorageProvider, entries: StorageEntry[]) => {
+    if (entries.length === 0) {
+      showToast('info', `No images found in ${provider.name}`);
+      return;
+    }
+    if (entries.length > 1) showToast('info', `Loading ${entries.length} images from ${provider.name}...`);
+    const { items, labelFiles, failed } = await loadStorageEntries(provider, entries, labelSubfolder);
+    if (failed.length > 0) {
+      showToast('error', `Could not download ${failed.length} image${failed.length === 1 ? '' : 's'} from ${provider.name}: ${failed.slice(0, 3).map(entry => `${entry.name} (${entry.message})`).join(', ')}${failed.length > 3 ? ', …' : ''}`);
+    }
+    if (items.length === 0) return;
+    let result: LabelImportResult;
+    try {
+      result = await importYoloFiles(labelFiles, classes);
+    } catch (error) {
+      // The images never reached the queue, so nothing else would release their object URLs
+      items.forEach(releaseImageItem);
+      throw error;
+    }
+    const { selectionsByImage } = result;
+    applyLabelImport(result);
+    addImagesToQueue(items.map(item =>
+      selectionsByImage.has(item.id) ? withLoadedSelections(item, selectionsByImage.get(item.id)!) : item
+    ));
+    if (entries.length > 1) showToast('success', `Opened ${items.length} images (${labelFiles.length} with labels) from ${provider.name}`);
+  };
+
+  // Picked folders are expanded to every image they contain (not recursively). Existing YOLO labels
+  // are loaded from the configured label location first, then from next to the image.
+  const openDriveItems = async (picks: DrivePick[]) => {
+    setIsOpeningStorage(true);
+    try {
+      // A pick that cannot be read is reported; the others still open
+      const results = await Promise.allSettled(picks.map(async (pick): Promise<StorageEntry[]> => {
+        if (pick.mimeType === DRIVE_FOLDER_MIME) {
+          const files = await driveProvider.listImages(pick.id);
+          return files.sort((a, b) => compareFileNames(a.name, b.name));
+        }
+        const meta = await getDriveFileMeta(driveAuth, pick.id);
+        return [{ id: meta.id, name: meta.name, folderId: meta.parents ? meta.parents[0] : null }];
+      }));
+      const entries: StorageEntry[] = [];
+      const failed: string[] = [];
+      results.forEach((result, i) => {
+        if (result.status === 'fulfilled') entries.push(...result.value);
+        else failed.push(`${picks[i].name} (${(result.reason as Error)?.message ?? result.reason})`);
       });
+      if (failed.length > 0) {
+        showToast('error', `Could not read ${failed.length} Drive item${failed.length === 1 ? '' : 's'}: ${failed.slice(0, 3).join(', ')}${failed.length > 3 ? ', …' : ''}`);
+      }
+      if (entries.length > 0 || failed.length === 0) await openStorageEntries(driveProvider, entries);
+    } catch (error) {
+      showToast('error', `Could not open from Drive: ${(error as Error).message}`);
+    } finally {
+      setIsOpeningStorage(false);
+    }
+  };
+
+  const openProviderFolder = async (provider: StorageProvider, folderId: string | null) => {
+    setIsOpeningStorage(true);
+    try {
+      const entries = await provider.listImages(folderId);
+      setStorageProviders(prev => ({ ...prev, [provider.id]: provider }));
+      await openStorageEntries(provider, entries.sort((a, b) => compareFileNames(a.name, b.name)));
+    } catch (error) {
+      showToast('error', `Could not open ${provider.name}: ${(error as Error).message}`);
+    } finally {
+      setIsOpeningStorage(false);
+    }
+  };
+
+  const handleOpenLocalFolder = async () => {
+    try {
+      const handle = await pickLocalFolder();
+      if (handle) await openProviderFolder(await createLocalFolderProvider(handle), '');
+    } catch (error) {
+      showToast('error', `Could not open the folder: ${(error as Error).message}`);
     }
   };
 
+  const handleOpenS3 = (config: S3Config) => openProviderFolder(createS3Provider(config), config.prefix);
+
+  const handleLabelSubfolderChange = (value: string) => {
+    const subfolder = value.trim().replace(/^\/+|\/+$/g, '');
+    setLabelSubfolder(subfolder);
+    localStorage.setItem(LABEL_SUBFOLDER_STORAGE_KEY, subfolder);
+  };
+
+  const createProjectPicker = () => {
+      if (!isGoogleConfigured) return;
+      const view = new window.google.picker.View(window.google.picker.ViewId.DOCS);
+      view.setMimeTypes("application/json,application/zip,application/x-zip-compressed");
+      const picker = new window.google.picker.PickerBuilder()
+          .setAppId(GOOGLE_CLIENT_ID.split('-')[0])
+          .setOAuthToken(window.gapi.client.getToken().access_token)
+          .addView(view)
+          .setDeveloperKey(GOOGLE_API_KEY)
+          .setCallback((data: any) => {
+            if (data[window.google.picker.Response.ACTION] !== window.google.picker.Action.PICKED) return;
+            const doc = data[window.google.picker.Response.DOCUMENTS][0];
+            downloadDriveFile(driveAuth, doc.id)
+              .then(blob => handleProjectOpen([new File([blob], doc.name)]))
+              .catch(error => setImportReports([{ fileName: doc.name, errors: [{ line: 0, text: '', message: error.message }] }]));
+          })
+          .build();
+      picker.setVisible(true);
+  };
+
   // --- Core App Logic ---
+  const updateCurrentImage = useCallback((update: (image: ImageItem) => ImageItem) => {
+    setImages(prevImages => {
+      const image = prevImages[currentImageIndex];
+      if (!image) return prevImages;
+      const updated = update(image);
+      if (updated === image) return prevImages;
+      const nextImages = [...prevImages];
+      nextImages[currentImageIndex] = updated;
+      return nextImages;
+    });
+  }, [currentImageIndex]);
+
   const commitSelections = useCallback((newSelections: Selection[] | ((prev: Selection[]) => Selection[])) => {
-    setSelections(prevSelections => {
+    updateCurrentImage(image => {
+        const prevSelections = getCurrentSelections(image);
         const nextSelections = typeof newSelections === 'function' ? newSelections(prevSelections) : newSelections;
 
         if (JSON.stringify(nextSelections) === JSON.stringify(prevSelections)) {
-            return prevSelections;
+            return image;
         }
 
-        const newHistory = history.slice(0, historyIndex + 1);
-        newHistory.push(nextSelections);
-        setHistory(newHistory);
-        setHistoryIndex(newHistory.length - 1);
-        return nextSelections;
+        return pushSelections(image, nextSelections);
     });
-  }, [history, historyIndex]);
+  }, [updateCurrentImage]);
+
+  const handleUndo = () => canUndo && updateCurrentImage(image => ({ ...image, historyIndex: image.historyIndex - 1 }));
+  const handleRedo = () => canRedo && updateCurrentImage(image => ({ ...image, historyIndex: image.historyIndex + 1 }));
+
+  const addImagesToQueue = (items: ImageItem[]) => {
+    if (items.length === 0) return;
+    // Jump to the first newly added image once it is queued
+    pendingImageIdRef.current = items[0].id;
+    setImages(prevImages => [...prevImages, ...items]);
+    setIsCopied(false);
+  };
 
   useEffect(() => {
-    if (JSON.stringify(history[historyIndex]) !== JSON.stringify(selections)) {
-      setSelections(history[historyIndex]);
+    if (!pendingImageIdRef.current) return;
+    const index = images.findIndex(image => image.id === pendingImageIdRef.current);
+    pendingImageIdRef.current = null;
+    if (index !== -1) setCurrentImageIndex(index);
+  }, [images]);
+
+  // COCO imports remember the file's image ids so re-exports keep them
+  const withCocoImageId = (image: ImageItem, cocoImageIds?: Map<string, number>): ImageItem =>
+    cocoImageIds?.has(image.id) ? { ...image, cocoId: cocoImageIds.get(image.id) } : image;
+
+  // Applies imported boxes as a new undoable step on images already in the queue.
+  const applyLabelImport = ({ selectionsByImage, classes: nextClasses, reports, cocoImageIds }: LabelImportResult) => {
+    if (nextClasses !== classes) setClasses(nextClasses);
+    setImportReports(reports);
+    setImages(prevImages => prevImages.map(image =>
+      selectionsByImage.has(image.id) ? withCocoImageId(pushSelections(image, selectionsByImage.get(image.id)!), cocoImageIds) : image
+    ));
+  };
+
+  const handleImagesUpload = async (files: File[]) => {
+    const sorted = files.filter(isImageFile).sort((a, b) => compareFileNames(a.webkitRelativePath || a.name, b.webkitRelativePath || b.name));
+    let items: ImageItem[] = [];
+    try {
+      items = await Promise.all(sorted.map(file => createImageItem(file, file.name)));
+
+      // Label files are paired by base name, first with the images in this batch, then with the queue.
+      const labelFiles = files.filter(isLabelFile);
+      const cocoFiles = files.filter(isJsonFile);
+      if (labelFiles.length === 0 && cocoFiles.length === 0) {
+        addImagesToQueue(items);
+        return;
+      }
+      const candidates = [...items, ...images];
+      let result = await importYoloFiles(labelFiles.map(file => ({
+        file,
+        target: candidates.find(image => getBaseName(image.fileName) === getBaseName(file.name)),
+      })), classes);
+      for (const file of cocoFiles) {
+        const cocoResult = await importCocoFile(file, candidates, result.classes);
+        result = {
+          selectionsByImage: new Map([...result.selectionsByImage, ...cocoResult.selectionsByImage]),
+          classes: cocoResult.classes,
+          reports: [...result.reports, ...cocoResult.reports],
+          cocoImageIds: new Map([...(result.cocoImageIds ?? []), ...(cocoResult.cocoImageIds ?? [])]),
+        };
+      }
+
+      const { selectionsByImage, cocoImageIds } = result;
+      applyLabelImport(result);
+      addImagesToQueue(items.map(item =>
+        selectionsByImage.has(item.id) ? withCocoImageId(withLoadedSelections(item, selectionsByImage.get(item.id)!), cocoImageIds) : item
+      ));
+    } catch (e) {
+      // The images never reached the queue, so nothing else would release their object URLs
+      items.forEach(releaseImageItem);
+      showToast('error', `Could not add the files: ${(e as Error).message}`);
     }
-  }, [history, historyIndex, selections]);
+  };
+
+  const handleLabelFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !currentImage) return;
+    try {
+      applyLabelImport(await importYoloFiles([{ file, target: currentImage }], classes));
+    } catch (error) {
+      showToast('error', `Could not import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleCocoImport = async (file: File) => {
+    try {
+      applyLabelImport(await importCocoFile(file, images, classes));
+    } catch (e) {
+      showToast('error', `Could not import ${file.name}: ${(e as Error).message}`);
+    }
+  };
+
+  const handleCocoExport = () => {
+    if (!confirmExportQuality(images)) return;
+    const dataset = buildCocoDataset(images, classes, skeleton);
+    downloadBlob(new Blob([JSON.stringify(dataset, null, 2)], { type: 'application/json' }), 'instances.json');
+  };
 
-  const handleUndo = () => canUndo && setHistoryIndex(historyIndex - 1);
-  const handleRedo = () => canRedo && setHistoryIndex(historyIndex + 1);
+  const handleDatasetExport = async (options: SplitOptions) => {
+    if (!confirmExportQuality(images)) return;
+    try {
+      const { zip, skipped } = await buildYoloDatasetZip(images, classes, options);
+      downloadBlob(zip, 'dataset.zip');
+      if (skipped.length > 0) {
+        showToast('info', `Left out ${skipped.length} image${skipped.length === 1 ? '' : 's'} whose size could not be read: ${skipped.slice(0, 3).join(', ')}${skipped.length > 3 ? ', …' : ''}`);
+      }
+    } catch (e) {
+      showToast('error', `Dataset export failed: ${(e as Error).message}`);
+    }
+  };
 
-  const handleImageUpload = (file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      setImageSrc(e.target?.result as string);
-      setFileName(file.name);
-      setDriveFileMeta(null); // It's a local file
-      commitSelections([]);
+  const handleProjectSave = async (includeImages: boolean) => {
+    try {
+      const project = buildProjectFile(images, classes, { outputFormat, tool, skeletonId, activeClassId }, currentImageIndex, includeImages);
+      if (includeImages) {
+        downloadBlob(await buildProjectZip(project, images), 'project.zip');
+      } else {
+        downloadBlob(new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' }), 'project.json');
+      }
+    } catch (e) {
+      showToast('error', `Could not save the project: ${(e as Error).message}`);
+    }
+  };
+
+  // Images come from the project zip, then from files picked alongside project.json, then from
+  // the current queue, and finally from the storage the image was opened from. Each picked file
+  // is used once and queued images match by id, so same-named images keep their own blobs.
+  const resolveProjectImage = async (entry: ProjectImage, zipBlobs: Map<string, Blob>, files: File[], usedFiles: Set<File>): Promise<Blob | null> => {
+    if (entry.path && zipBlobs.has(entry.path)) return zipBlobs.get(entry.path)!;
+    const file = files.find(candidate => !usedFiles.has(candidate) && candidate.name === entry.fileName);
+    if (file) {
+      usedFiles.add(file);
+      return file;
+    }
+    const sameName = images.filter(image => image.fileName === entry.fileName);
+    const queued = images.find(image => image.id === entry.id) ?? (sameName.length === 1 ? sameName[0] : undefined);
+    if (queued) return queued.blob;
+    if (!entry.source) return null;
+    const provider = getStorageProvider(entry.source);
+    if (provider && (entry.source.kind !== 'drive' || isSignedIn || isDriveMocked)) {
+      return provider.readImage(toStorageEntry(entry.source)).catch(() => null);
+    }
+    return null;
+  };
+
+  const handleProjectOpen = async (files: File[]) => {
+    const projectFile = files.find(file => isJsonFile(file) || file.name.toLowerCase().endsWith('.zip'));
+    if (!projectFile) {
+      setImportReports([{ fileName: files[0]?.name ?? 'project', errors: [{ line: 0, text: '', message: 'Select a project .json or .zip file' }] }]);
+      return;
+    }
+    let loaded: ProjectLoadResult;
+    try {
+      loaded = await readProjectFile(projectFile, projectFile.name);
+    } catch (e) {
+      showToast('error', `Could not open ${projectFile.name}: ${(e as Error).message}`);
+      return;
+    }
+    const { project, errors, imageBlobs } = loaded;
+    if (!project) {
+      setImportReports([{ fileName: projectFile.name, errors }]);
+      return;
+    }
+    if (images.length > 0 && !window.confirm('Opening a project replaces the current queue. Your current work stays available under Sessions. Continue?')) return;
+
+    const items: ImageItem[] = [];
+    const usedFiles = new Set<File>();
+    try {
+      for (const entry of project.images) {
+        const blob = await resolveProjectImage(entry, imageBlobs, files, usedFiles);
+        if (!blob) {
+          errors.push({ line: 0, text: entry.fileName, message: 'Image not found; pick it together with the project file' });
+          continue;
+        }
+        const item = await createImageItem(blob, entry.fileName, entry.source);
+        items.push({ ...item, dimensions: item.dimensions ?? entry.dimensions, history: [entry.selections], historyIndex: 0, cocoId: entry.cocoId, status: entry.status, assignee: entry.assignee, comments: entry.comments });
+      }
+    } catch (e) {
+      items.forEach(releaseImageItem);
+      showToast('error', `Could not open ${projectFile.name}: ${(e as Error).message}`);
+      return;
+    }
+
+    images.forEach(releaseImageItem);
+    setSessionId(createSessionId());
+    setImages(items);
+    setCurrentImageIndex(Math.min(project.currentImageIndex, Math.max(0, items.length - 1)));
+    setClasses(project.classes);
+    setActiveClassId(project.settings.activeClassId);
+    setOutputFormat(project.settings.outputFormat);
+    setTool(project.settings.tool);
+    setSkeletonId(project.settings.skeletonId);
+    setRestoreCandidate(null);
+    setIsCopied(false);
+    setImportReports(errors.length > 0 ? [{ fileName: projectFile.name, errors }] : []);
+  };
+
+  const handleCropExport = async (scope: 'current' | 'all', options: CropOptions) => {
+    const sources = scope === 'current' ? (currentImage ? [currentImage] : []) : images;
+    if (!confirmExportQuality(sources)) return;
+    const crops: CropFile[] = [];
+    const failed: string[] = [];
+    // An image that cannot be decoded is reported instead of stopping the other crops
+    for (const image of sources) {
+      try {
+        crops.push(...await cropImageSelections(image, classes, options));
+      } catch {
+        failed.push(image.fileName);
+      }
+    }
+    if (failed.length > 0) {
+      showToast('error', `Could not crop ${failed.length} image${failed.length === 1 ? '' : 's'}: ${failed.slice(0, 3).join(', ')}${failed.length > 3 ? ', …' : ''}`);
+    }
+    try {
+      if (crops.length === 1) {
+        downloadBlob(crops[0].blob, crops[0].name);
+      } else if (crops.length > 1) {
+        const zipName = scope === 'current' ? `${getBaseName(fileName)}_crops.zip` : 'crops.zip';
+        downloadBlob(await zipCropFiles(crops), zipName);
+      }
+    } catch (e) {
+      showToast('error', `Crop export failed: ${(e as Error).message}`);
+    }
+  };
+
+  const handleImageDimensionsChange = (dimensions: ImageItem['dimensions']) => {
+    updateCurrentImage(image =>
+      image.dimensions?.naturalWidth === dimensions?.naturalWidth && image.dimensions?.naturalHeight === dimensions?.naturalHeight
+        ? image
+        : { ...image, dimensions }
+    );
+  };
+
+  const handleSelectImage = (index: number) => {
+    if (index < 0 || index >= images.length) return;
+    setCurrentImageIndex(index);
+    setIsCopied(false);
+  };
+
+  // Keypoints are stored in template order, so switching templates would reinterpret every placed joint
+  const handleSkeletonChange = (id: string) => {
+    if (images.some(image => getCurrentSelections(image).some(sel => sel.keypoints))) {
+      showToast('error', 'Delete the existing keypoint annotations before switching the skeleton template');
+      return;
+    }
+    setSkeletonId(id);
+  };
+
+  const handleSnapToEdgesChange = (enabled: boolean) => {
+    setSnapToEdges(enabled);
+    localStorage.setItem(SNAP_TO_EDGES_STORAGE_KEY, String(enabled));
+  };
+
+  const handleKeymapChange = (next: Keymap) => {
+    setKeymap(next);
+    saveKeymap(next);
+  };
+
+  // Global shortcuts; box-level ones (delete, lock, class keys, Tab) are handled by ImageSelector
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isShortcutsOpen || isStatisticsOpen || isTypingTarget(e.target)) return;
+      const action = matchShortcut(e, keymap);
+      if (action === 'undo') handleUndo();
+      else if (action === 'redo') handleRedo();
+      else if (action === 'nextImage') handleSelectImage(currentImageIndex + 1);
+      else if (action === 'previousImage') handleSelectImage(currentImageIndex - 1);
+      else if (action === 'showShortcuts') setIsShortcutsOpen(true);
+      else if (action === 'selectAll' && selections.length > 0) setSelectedIds(selections.map(sel => sel.id));
+      // Copying selected page text keeps working as usual
+      else if (action === 'copySelection' && selectedSelections.length > 0 && !window.getSelection()?.toString()) handleCopySelections();
+      else if (action === 'pasteSelection' && clipboardRef.current && imageDimensions) handlePasteSelections();
+      else if (action === 'duplicateSelection' && selectedSelections.length > 0) handleDuplicateSelections();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // --- Quality checks ---
+  const qualityIssues = useMemo(() => findQualityIssues(images, classes, qualitySettings), [images, classes, qualitySettings]);
+
+  const handleQualitySettingsChange = (settings: QualitySettings) => {
+    setQualitySettings(settings);
+    saveQualitySettings(settings);
+  };
+
+  // ImageSelector clears the selection when the shown image changes, so a box on another image
+  // is selected by this effect, which runs after the child's
+  useEffect(() => {
+    if (!pendingSelectedIdsRef.current) return;
+    setSelectedIds(pendingSelectedIdsRef.current);
+    pendingSelectedIdsRef.current = null;
+  }, [currentImage?.id]);
+
+  const handleSelectIssue = (issue: QualityIssue) => {
+    const index = images.findIndex(image => image.id === issue.imageId);
+    if (index === -1) return;
+    const ids = issue.selectionId ? [issue.selectionId] : [];
+    if (index === currentImageIndex) {
+      setSelectedIds(ids);
+    } else {
+      pendingSelectedIdsRef.current = ids;
+      handleSelectImage(index);
+    }
+  };
+
+  // Applies the export policy to the errors among `scope`; false means the export should not run
+  const confirmExportQuality = (scope: ImageItem[]): boolean => {
+    if (qualitySettings.exportPolicy === 'ignore') return true;
+    const ids = new Set(scope.map(image => image.id));
+    const errors = qualityIssues.filter(issue => issue.severity === 'error' && ids.has(issue.imageId));
+    if (errors.length === 0) return true;
+    const summary = `${errors.length} quality error${errors.length === 1 ? '' : 's'} (first: ${errors[0].message})`;
+    if (qualitySettings.exportPolicy === 'block') {
+      showToast('error', `Export blocked by ${summary}. Fix them or change the policy under Quality Checks.`);
+      return false;
+    }
+    return window.confirm(`Found ${summary}. Export anyway?`);
+  };
+
+  // --- Predictions vs. labels ---
+  const predictionComparison = useMemo(
+    () => currentImage?.predictions && evaluationSettings.showPredictions ? comparePredictions(currentImage, classes, evaluationSettings) : null,
+    [currentImage, classes, evaluationSettings],
+  );
+
+  // Prediction files are matched to queued images by base name; loading one again replaces its predictions
+  const handleLoadPredictions = async (files: File[]) => {
+    const { predictionsByImage, reports } = await importPredictionFiles(files.map(file => ({
+      file,
+      target: images.find(image => getBaseName(image.fileName) === getBaseName(file.name)),
+    })));
+    setImportReports(reports);
+    setImages(prevImages => prevImages.map(image =>
+      predictionsByImage.has(image.id) ? { ...image, predictions: predictionsByImage.get(image.id) } : image
+    ));
+    if (predictionsByImage.size > 0) {
+      const count = [...predictionsByImage.values()].reduce((sum, predictions) => sum + predictions.length, 0);
+      showToast('success', `Loaded ${count} prediction${count === 1 ? '' : 's'} for ${predictionsByImage.size} image${predictionsByImage.size === 1 ? '' : 's'}`);
+    }
+  };
+
+  const handleClearPredictions = () => {
+    setImages(prevImages => prevImages.map(({ predictions, ...image }) => image));
+  };
+
+  // --- Auto-annotation ---
+  const handleSetProposals = (imageId: string, proposals: Proposal[]) => {
+    setImages(prevImages => prevImages.map(image => image.id === imageId ? { ...image, proposals } : image));
+  };
+
+  // Accepted proposals become ordinary boxes in one undoable step; `ids` defaults to all of them
+  const handleAcceptProposals = (ids?: string[]) => updateCurrentImage(image => {
+    const accepted = (image.proposals ?? []).filter(p => !ids || ids.includes(p.selection.id));
+    if (accepted.length === 0) return image;
+    return {
+      ...pushSelections(image, [...getCurrentSelections(image), ...accepted.map(p => p.selection)]),
+      proposals: image.proposals!.filter(p => !accepted.includes(p)),
     };
-    reader.readAsDataURL(file);
+  });
+
+  const handleRejectProposals = (ids?: string[]) => updateCurrentImage(image =>
+    image.proposals?.length ? { ...image, proposals: ids ? image.proposals.filter(p => !ids.includes(p.selection.id)) : [] } : image
+  );
+
+  // --- Review ---
+  const handleSetImageStatus = (index: number, status: ImageStatus) => {
+    setImages(prevImages => prevImages.map((image, i) => i === index ? { ...image, status } : image));
+  };
+
+  const handleReviewerNameChange = (name: string) => {
+    setReviewerName(name);
+    saveReviewerName(name);
+  };
+
+  const handleAddComment = (text: string, selectionId: string | null) => updateCurrentImage(image => ({
+    ...image,
+    comments: [...image.comments, createComment(reviewerName.trim(), text, selectionId)],
+  }));
+
+  const handleToggleCommentResolved = (commentId: string) => updateCurrentImage(image => ({
+    ...image,
+    comments: image.comments.map(comment => comment.id === commentId ? { ...comment, resolved: !comment.resolved } : comment),
+  }));
+
+  const handleDeleteComment = (commentId: string) => updateCurrentImage(image => ({
+    ...image,
+    comments: image.comments.filter(comment => comment.id !== commentId),
+  }));
+
+  const handleRemoveCurrentImage = () => {
+    if (!currentImage) return;
+    releaseImageItem(currentImage);
+    setImages(prevImages => prevImages.filter((_, i) => i !== currentImageIndex));
+    setCurrentImageIndex(Math.max(0, Math.min(currentImageIndex, images.length - 2)));
+    setIsCopied(false);
   };
   
+  // The closed queue stays in its saved session; new work starts a new one
   const handleReset = () => {
-    setImageSrc(null);
-    setFileName('');
-    setSelections([]);
-    setImageDimensions(null);
+    images.forEach(releaseImageItem);
+    setImages([]);
+    setCurrentImageIndex(0);
     setIsCopied(false);
-    setDriveFileMeta(null);
-    setHistory([[]]);
-    setHistoryIndex(0);
+    setSessionId(createSessionId());
   }
   
+  // --- Multi-selection ---
+  const selectedSelections = useMemo(() => selections.filter(sel => selectedIds.includes(sel.id)), [selections, selectedIds]);
+
+  const handleToggleSelected = (id: string) =>
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+
+  const handleCopySelections = () => {
+    if (selectedSelections.length === 0 || !imageDimensions) return;
+    clipboardRef.current = { selections: selectedSelections, dimensions: imageDimensions };
+    showToast('info', `Copied ${selectedSelections.length} box${selectedSelections.length === 1 ? '' : 'es'}`);
+  };
+
+  // Pasted boxes are scaled from the size of the image they were copied from and become the selection
+  const handlePasteSelections = () => {
+    const clipboard = clipboardRef.current;
+    if (!clipboard || !imageDimensions) return;
+    const sx = imageDimensions.naturalWidth / clipboard.dimensions.naturalWidth;
+    const sy = imageDimensions.naturalHeight / clipboard.dimensions.naturalHeight;
+    const idPrefix = Date.now();
+    const pasted = clipboard.selections.map((sel, i) => ({ ...scaleSelection(sel, sx, sy), id: `${idPrefix}-${i}`, locked: false, cocoId: undefined }));
+    commitSelections(prev => [...prev, ...pasted]);
+    setSelectedIds(pasted.map(sel => sel.id));
+  };
+
+  const handleDuplicateSelections = () => {
+    if (selectedSelections.length === 0) return;
+    const offset = imageDimensions
+      ? clampOffset(getGroupBounds(selectedSelections), DUPLICATE_OFFSET, DUPLICATE_OFFSET, imageDimensions.naturalWidth, imageDimensions.naturalHeight)
+      : { x: DUPLICATE_OFFSET, y: DUPLICATE_OFFSET };
+    const idPrefix = Date.now();
+    const copies = selectedSelections.map((sel, i) => ({ ...translateSelection(sel, offset.x, offset.y), id: `${idPrefix}-${i}`, locked: false, cocoId: undefined }));
+    commitSelections(prev => [...prev, ...copies]);
+    setSelectedIds(copies.map(sel => sel.id));
+  };
+
+  // Bulk edits apply to the selected boxes in one undoable step; class changes skip locked boxes
+  const handleBulkLock = (locked: boolean) => commitSelections(prev => prev.map(sel => selectedIds.includes(sel.id) ? { ...sel, locked } : sel));
+  const handleBulkDelete = () => {
+    commitSelections(prev => prev.filter(sel => !selectedIds.includes(sel.id)));
+    setSelectedIds([]);
+  };
+  const handleBulkClassChange = (classId: string) => commitSelections(prev => prev.map(sel => selectedIds.includes(sel.id) && !sel.locked ? { ...sel, classId } : sel));
+
   const handleToggleLock = (id: string) => commitSelections(prev => prev.map(sel => sel.id === id ? { ...sel, locked: !sel.locked } : sel));
   const handleDeleteSelection = (id: string) => commitSelections(prev => prev.filter(sel => sel.id !== id));
+  const handleSelectionClassChange = (id: string, classId: string) => commitSelections(prev => prev.map(sel => sel.id === id ? { ...sel, classId } : sel));
+  const handleSelectionRectChange = (id: string, field: keyof Rect, value: number) => {
+    if (!imageDimensions) return;
+    commitSelections(prev => prev.map(sel => {
+      if (sel.id !== id || sel.locked) return sel;
+      const rect = clampRect({ ...getSelectionRect(sel), [field]: value }, imageDimensions.naturalWidth, imageDimensions.naturalHeight);
+      return applyRect(sel, rect);
+    }));
+  };
+  const handleSelectionAngleChange = (id: string, angle: number) => commitSelections(prev => prev.map(sel => sel.id === id && !sel.locked ? { ...sel, angle: normalizeAngle(angle) } : sel));
+  // Drops the outline and keeps the polygon's bounding box
+  const handleConvertToBox = (id: string) => commitSelections(prev => prev.map(sel => {
+    if (sel.id !== id || sel.locked || !sel.points) return sel;
+    const { points, ...box } = sel;
+    return box;
+  }));
+  // Only placed keypoints can switch between visible and occluded; marking one absent clears its position
+  const handleKeypointVisibilityChange = (id: string, index: number, visibility: KeypointVisibility) => commitSelections(prev => prev.map(sel => {
+    if (sel.id !== id || sel.locked) return sel;
+    const keypoint = getTemplateKeypoints(sel, skeleton)[index];
+    return keypoint.visibility ? setKeypoint(sel, skeleton, index, { ...keypoint, visibility }) : sel;
+  }));
+  const handleToggleFlag = (id: string, flag: 'difficult' | 'truncated') => commitSelections(prev => prev.map(sel => sel.id === id ? { ...sel, [flag]: !sel[flag] } : sel));
+
+  // --- Class Management ---
+  const handleAddClass = (name: string) => {
+    const newClass = createClass(name, classes);
+    setClasses([...classes, newClass]);
+    setActiveClassId(newClass.id);
+  };
+
+  const handleUpdateClass = (id: string, changes: Partial<Omit<AnnotationClass, 'id'>>) => {
+    setClasses(prev => prev.map(cls => cls.id === id ? { ...cls, ...changes } : cls));
+  };
+
+  const handleMoveClass = (id: string, direction: -1 | 1) => {
+    setClasses(prev => {
+      const index = prev.findIndex(cls => cls.id === id);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleDeleteClass = (id: string) => {
+    const remaining = classes.filter(cls => cls.id !== id);
+    if (remaining.length === 0) return;
+    const fallbackId = remaining[0].id;
+    setClasses(remaining);
+    if (activeClassId === id) setActiveClassId(fallbackId);
+    // Rewrite every history entry of every image so undo/redo never brings back a dangling class id.
+    setImages(prevImages => prevImages.map(image => ({
+      ...image,
+      history: image.history.map(entry => remapDeletedClass(entry, id, fallbackId)),
+    })));
+  };
+
+  const countsByClass = useMemo(() => images.flatMap(getCurrentSelections).reduce<Record<string, number>>((counts, sel) => {
+    if (sel.classId) counts[sel.classId] = (counts[sel.classId] || 0) + 1;
+    return counts;
+  }, {}), [images]);
 
   const selectionCoords = useMemo(() => selections.map(selection => ({
     id: selection.id,
     locked: !!selection.locked,
-    x: Math.round(Math.min(selection.start.x, selection.end.x)),
-    y: Math.round(Math.min(selection.start.y, selection.end.y)),
-    width: Math.round(Math.abs(selection.start.x - selection.end.x)),
-    height: Math.round(Math.abs(selection.start.y - selection.end.y)),
-  })), [selections]);
-
-  const yoloString = useMemo(() => {
-    if (selectionCoords.length > 0 && imageDimensions) {
-      return selectionCoords
-        .filter(coords => coords.width > 0 && coords.height > 0)
-        .map(coords => {
-          const x_center = (coords.x + coords.width / 2) / imageDimensions.naturalWidth;
-          const y_center = (coords.y + coords.height / 2) / imageDimensions.naturalHeight;
-          const width = coords.width / imageDimensions.naturalWidth;
-          const height = coords.height / imageDimensions.naturalHeight;
-          
-          return `0 ${x_center.toFixed(6)} ${y_center.toFixed(6)} ${width.toFixed(6)} ${height.toFixed(6)}`;
-        })
-        .join('\n');
+    classId: selection.classId,
+    difficult: !!selection.difficult,
+    truncated: !!selection.truncated,
+    angle: selection.angle ?? 0,
+    vertexCount: selection.points?.length ?? 0,
+    keypoints: selection.keypoints ? getTemplateKeypoints(selection, skeleton) : null,
+    ...getSelectionRect(selection),
+  })), [selections, skeleton]);
+
+  const outputString = useMemo(() => {
+    if (selections.length > 0 && imageDimensions) {
+      const { naturalWidth, naturalHeight } = imageDimensions;
+      // Axis-aligned formats export the envelope of rotated boxes
+      const boundingRects = selections.map(selection => ({
+        classId: selection.classId,
+        difficult: !!selection.difficult,
+        truncated: !!selection.truncated,
+        ...getBoundingRect(selection, naturalWidth, naturalHeight),
+      }));
+      switch (outputFormat) {
+        case 'voc':
+          return formatVocXml(fileName, boundingRects, classes, imageDimensions);
+        case 'yolo-obb':
+          return formatYoloObbLabels(selections, classes, imageDimensions);
+        case 'dota':
+          return formatDotaLabels(selections, classes);
+        case 'yolo-seg':
+          return formatYoloSegLabels(selections, classes, imageDimensions);
+        case 'yolo-pose':
+          return formatYoloPoseLabels(selections, classes, imageDimensions, skeleton);
+        case 'yolo':
+        default:
+          return formatYoloLabels(boundingRects, classes, imageDimensions);
+      }
     }
     return null;
-  }, [selectionCoords, imageDimensions]);
+  }, [selections, imageDimensions, classes, outputFormat, fileName, skeleton]);
+
+  const outputFormatInfo = OUTPUT_FORMATS[outputFormat];
 
   const handleCopy = () => {
-    if (yoloString) {
-      navigator.clipboard.writeText(yoloString);
+    if (outputString) {
+      navigator.clipboard.writeText(outputString);
       setIsCopied(true);
       setTimeout(() => setIsCopied(false), 2000);
     }
   };
 
+  const sourceProvider = getStorageProvider(imageSource);
+  const sourceLabel = imageSource && STORAGE_KIND_LABELS[imageSource.kind];
+
   const handleSaveToFile = () => {
-    if (driveFileMeta) {
-      saveToDrive();
+    if (!currentImage || !confirmExportQuality([currentImage])) return;
+    if (sourceProvider) {
+      saveToSource();
     } else {
       saveToLocal();
     }
   };
   
   const saveToLocal = () => {
-    if (yoloString && fileName) {
-      const blob = new Blob([yoloString], { type: 'text/plain;charset=utf-8' });
-      const link = document.createElement('a');
-      link.href = URL.createObjectURL(blob);
-      
-      const baseName = fileName.includes('.') ? fileName.split('.').slice(0, -1).join('.') : fileName;
-      link.download = `${baseName}.txt`;
-
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(link.href);
-    }
-  };
-
-  const saveToDrive = () => {
-    if (!yoloString || !driveFileMeta) return;
-
-    setIsSavingToDrive(true);
-    const baseName = driveFileMeta.name.includes('.') ? driveFileMeta.name.split('.').slice(0, -1).join('.') : driveFileMeta.name;
-    const txtFileName = `${baseName}.txt`;
-    const metadata = {
-        name: txtFileName,
-        mimeType: 'text/plain',
-        ...(driveFileMeta.parentId && { parents: [driveFileMeta.parentId] })
-    };
-    const fileContent = new Blob([yoloString], { type: 'text/plain' });
-    const form = new FormData();
-    form.append('metadata', new Blob([JSON.stringify(metadata)], { type: 'application/json' }));
-    form.append('file', fileContent);
-    
-    fetch('https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart', {
-        method: 'POST',
-        headers: new Headers({ 'Authorization': `Bearer ${window.gapi.client.getToken().access_token}` }),
-        body: form
-    })
-    .then(res => res.json())
-    .then(data => {
-        if(data.id){
-            // Success! Could show a notification.
-        } else {
-            // Handle error
-            console.error("Error saving to drive:", data);
+    if (outputString && fileName) {
+      const blob = new Blob([outputString], { type: `${outputFormatInfo.mimeType};charset=utf-8` });
+      downloadBlob(blob, `${getBaseName(fileName)}.${outputFormatInfo.extension}`);
+    }
+  };
+
+  // Overwrites the label file next to the image (or in the labels folder) when one exists. If it
+  // changed since we last loaded or saved it, or was never seen from here, the user confirms first.
+  const saveToSource = async () => {
+    if (!outputString || !imageSource || !sourceProvider || !currentImage) return;
+
+    const imageId = currentImage.id;
+    const labelName = `${getBaseName(imageSource.name)}.${outputFormatInfo.extension}`;
+    const labelPath = getLabelPath(labelName, labelSubfolder);
+    setIsSavingLabels(true);
+    try {
+      const existing = await sourceProvider.findLabel(imageSource.folderId, labelSubfolder, labelName);
+      const known = imageSource.labelVersions?.[labelPath];
+      if (existing && known !== existing.version) {
+        const message = known
+          ? `${labelPath} was changed in ${sourceLabel} since it was loaded or last saved. Overwrite it?`
+          : `${labelPath} already exists in this ${sourceLabel} folder. Overwrite it?`;
+        if (!window.confirm(message)) {
+          showToast('info', `Save to ${sourceLabel} cancelled`);
+          return;
         }
-    })
-    .catch(error => console.error("Error saving to drive:", error))
-    .finally(() => setIsSavingToDrive(false));
+      }
+      const saved = await sourceProvider.writeLabel(imageSource.folderId, labelSubfolder, labelName, outputString, outputFormatInfo.mimeType, existing);
+      setImages(prevImages => prevImages.map(image => image.id === imageId && image.source ? {
+        ...image,
+        source: { ...image.source, labelVersions: { ...image.source.labelVersions, [labelPath]: saved.version } },
+      } : image));
+      showToast('success', existing ? `Updated ${labelPath} in ${sourceLabel}` : `Saved ${labelPath} to ${sourceLabel}`);
+    } catch (error) {
+      showToast('error', `Could not save ${labelPath} to ${sourceLabel}: ${(error as Error).message}`);
+    } finally {
+      setIsSavingLabels(false);
+    }
   };
   
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col p-4 sm:p-6 md:p-8">
       <div className="w-full max-w-6xl mx-auto flex justify-between items-center mb-4">
-        <div></div> {/* Spacer */}
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => setIsShortcutsOpen(true)}
+            title={`Keyboard shortcuts (${formatBinding(keymap.showShortcuts)})`}
+            className="flex items-center text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            <KeyboardIcon className="w-5 h-5 mr-1" /> Shortcuts
+          </button>
+          <button
+            onClick={() => setIsStatisticsOpen(true)}
+            disabled={images.length === 0}
+            title="Dataset statistics"
+            className="flex items-center text-sm text-gray-400 hover:text-white transition-colors disabled:opacity-50 disabled:hover:text-gray-400"
+          >
+            <BarChartIcon className="w-5 h-5 mr-1" /> Statistics
+          </button>
+        </div>
         {!isGoogleConfigured ? (
            <div className="flex items-center space-x-2 text-sm text-yellow-400 p-2 bg-yellow-900/50 rounded-md" role="alert">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
@@ -363,51 +1201,153 @@ const App: React.FC = () => {
         )}
       </div>
 
+      <Toasts toasts={toasts} onDismiss={(id) => setToasts(prev => prev.filter(toast => toast.id !== id))} />
+
+      {isShortcutsOpen && (
+        <ShortcutsOverlay keymap={keymap} onKeymapChange={handleKeymapChange} onClose={() => setIsShortcutsOpen(false)} />
+      )}
+      {isStatisticsOpen && (
+        <StatisticsOverlay images={images} classes={classes} onClose={() => setIsStatisticsOpen(false)} />
+      )}
+
       <main className="w-full max-w-6xl mx-auto flex flex-col flex-grow space-y-8">
         <header className="text-center">
           <h1 className="text-4xl sm:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-400 to-cyan-400">
             Bounding Box Annotation Tool
           </h1>
           <p className="mt-2 text-gray-400">
-            Upload an image, select objects, and get their YOLO coordinates.
+            Upload images, select objects, and get their YOLO coordinates.
           </p>
         </header>
 
+        {restoreCandidate && images.length === 0 && (
+          <div className="flex items-center justify-between flex-wrap gap-3 bg-cyan-900/30 rounded-lg p-4 border border-cyan-700 text-sm" role="alert">
+            <p className="text-gray-200">
+              Restore your previous session? <span className="font-semibold">{restoreCandidate.name}</span>
+              <span className="text-gray-400"> · {restoreCandidate.imageCount} image{restoreCandidate.imageCount === 1 ? '' : 's'}, {restoreCandidate.boxCount} box{restoreCandidate.boxCount === 1 ? '' : 'es'}</span>
+            </p>
+            <div className="flex items-center space-x-3">
+              <button onClick={() => handleOpenSession(restoreCandidate.id)} className="px-3 py-1 bg-cyan-600 hover:bg-cyan-500 text-white font-semibold rounded-md transition-colors">Restore</button>
+              <button onClick={() => setRestoreCandidate(null)} className="text-gray-400 hover:text-white">Start fresh</button>
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 flex-grow min-h-0">
-          <div className="w-full flex flex-col">
+          <div className="w-full flex flex-col gap-4">
             <ImageSelector
-              onImageUpload={handleImageUpload}
+              onImagesUpload={handleImagesUpload}
               onOpenFromDrive={createPicker}
               imageSrc={imageSrc}
               fileName={fileName}
               selections={selections}
               onSelectionsChange={commitSelections}
-              onReset={handleReset}
-              onImageDimensionsChange={setImageDimensions}
+              selectedIds={selectedIds}
+              onSelectedIdsChange={setSelectedIds}
+              classes={classes}
+              activeClassId={activeClassId}
+              onActiveClassChange={setActiveClassId}
+              keymap={keymap}
+              tool={tool}
+              onToolChange={setTool}
+              skeleton={skeleton}
+              onSkeletonChange={handleSkeletonChange}
+              snapToEdges={snapToEdges}
+              onSnapToEdgesChange={handleSnapToEdgesChange}
+              onRemoveImage={handleRemoveCurrentImage}
+              onImageDimensionsChange={handleImageDimensionsChange}
               onUndo={handleUndo}
               onRedo={handleRedo}
               canUndo={canUndo}
               canRedo={canRedo}
-              isSignedIn={isSignedIn}
-              gapiReady={gapiReady}
-              isGoogleConfigured={isGoogleConfigured}
+              canOpenFromDrive={((isSignedIn && gapiReady && isGoogleConfigured) || isDriveMocked) && !isOpeningStorage}
+              proposals={currentImage?.proposals ?? []}
+              onAcceptProposal={(id) => handleAcceptProposals([id])}
+              onRejectProposal={(id) => handleRejectProposals([id])}
+              predictionComparison={predictionComparison}
+              isOverlayOpen={isShortcutsOpen || isStatisticsOpen}
             />
+            {images.length > 0 && (
+              <ImageQueue
+                images={images}
+                currentIndex={currentImageIndex}
+                onSelectImage={handleSelectImage}
+                onSetStatus={handleSetImageStatus}
+                onAddImages={handleImagesUpload}
+                onClearQueue={handleReset}
+              />
+            )}
           </div>
 
           <div className="w-full flex flex-col gap-6">
+            {importReports.length > 0 && (
+              <ImportReportPanel reports={importReports} onDismiss={() => setImportReports([])} />
+            )}
+
+            <ClassManager
+              classes={classes}
+              activeClassId={activeClassId}
+              onActiveClassChange={setActiveClassId}
+              onAddClass={handleAddClass}
+              onUpdateClass={handleUpdateClass}
+              onMoveClass={handleMoveClass}
+              onDeleteClass={handleDeleteClass}
+              countsByClass={countsByClass}
+            />
+
             <div className="bg-gray-800/50 rounded-lg p-6 border border-gray-700 flex-grow overflow-y-auto">
               <h2 className="text-xl font-semibold mb-4 flex items-center">
                 <BoundingBoxIcon className="w-6 h-6 mr-2 text-cyan-400" />
                 Selection Details
               </h2>
+              {selectionCoords.length > 0 && (
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-2 mb-4 p-2 bg-gray-900/50 rounded-md text-sm">
+                  {selectedSelections.length > 0 ? (
+                    <>
+                      <span className="text-gray-300">{selectedSelections.length} selected</span>
+                      <select
+                        value=""
+                        onChange={(e) => handleBulkClassChange(e.target.value)}
+                        className="bg-gray-900 border border-gray-600 rounded px-2 py-0.5 text-sm"
+                        aria-label="Class for selected boxes"
+                      >
+                        <option value="" disabled>Set class…</option>
+                        {classes.map((cls, classIndex) => (
+                          <option key={cls.id} value={cls.id}>{classIndex}: {cls.name}</option>
+                        ))}
+                      </select>
+                      <button onClick={() => handleBulkLock(true)} title="Lock selected" className="flex items-center text-gray-400 hover:text-white"><LockIcon className="w-4 h-4 mr-1"/>Lock</button>
+                      <button onClick={() => handleBulkLock(false)} title="Unlock selected" className="flex items-center text-gray-400 hover:text-white"><UnlockIcon className="w-4 h-4 mr-1"/>Unlock</button>
+                      <button onClick={handleDuplicateSelections} title={`Duplicate (${formatBinding(keymap.duplicateSelection)})`} className="text-gray-400 hover:text-white">Duplicate</button>
+                      <button onClick={handleCopySelections} title={`Copy (${formatBinding(keymap.copySelection)}); paste on any image with ${formatBinding(keymap.pasteSelection)}`} className="text-gray-400 hover:text-white">Copy</button>
+                      <button onClick={handleBulkDelete} title="Delete selected" className="flex items-center text-gray-400 hover:text-red-400"><TrashIcon className="w-4 h-4 mr-1"/>Delete</button>
+                      <button onClick={() => setSelectedIds([])} className="ml-auto text-cyan-400 hover:underline">Clear</button>
+                    </>
+                  ) : (
+                    <>
+                      <span className="text-gray-500">Shift-click or Shift-drag on the image to select several boxes</span>
+                      <button onClick={() => setSelectedIds(selections.map(sel => sel.id))} className="ml-auto text-cyan-400 hover:underline">Select all</button>
+                    </>
+                  )}
+                </div>
+              )}
               {selectionCoords.length > 0 ? (
                 <div className="space-y-4">
                   {selectionCoords.map((coords, index) => (
                     coords.width > 0 && coords.height > 0 && (
-                      <div key={coords.id} className="text-gray-300 p-3 bg-gray-700/30 rounded-md">
+                      <div key={coords.id} className={`text-gray-300 p-3 bg-gray-700/30 rounded-md ${selectedIds.includes(coords.id) ? 'ring-1 ring-cyan-500' : ''}`}>
                          <div className="flex justify-between items-center mb-2">
-                           <p className="text-sm font-bold text-cyan-400">Box {index + 1}</p>
+                           <label className="flex items-center space-x-2 text-sm font-bold text-cyan-400 cursor-pointer">
+                             <input type="checkbox" checked={selectedIds.includes(coords.id)} onChange={() => handleToggleSelected(coords.id)} aria-label={`Select box ${index + 1}`} />
+                             <span>{coords.vertexCount > 0 ? `Polygon ${index + 1}` : `Box ${index + 1}`}</span>
+                             {coords.vertexCount > 0 && <span className="text-xs font-normal text-gray-400">{coords.vertexCount} points</span>}
+                           </label>
                            <div className="flex items-center space-x-3">
+                                {coords.vertexCount > 0 && !coords.locked && (
+                                    <button onClick={() => handleConvertToBox(coords.id)} title="Replace the outline with its bounding box" className="text-xs text-gray-400 hover:text-white">
+                                        To box
+                                    </button>
+                                )}
                                 <button onClick={() => handleToggleLock(coords.id)} title={coords.locked ? 'Unlock' : 'Lock'}>
                                     {coords.locked ? <LockIcon className="w-4 h-4 text-yellow-400"/> : <UnlockIcon className="w-4 h-4 text-gray-400 hover:text-white"/> }
                                 </button>
@@ -416,12 +1356,60 @@ const App: React.FC = () => {
                                 </button>
                            </div>
                          </div>
+                         <select
+                           value={classes.some(cls => cls.id === coords.classId) ? coords.classId : ''}
+                           onChange={(e) => handleSelectionClassChange(coords.id, e.target.value)}
+                           className="w-full mb-2 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm"
+                           aria-label={`Class for box ${index + 1}`}
+                         >
+                           <option value="" disabled>Unassigned</option>
+                           {classes.map((cls, classIndex) => (
+                             <option key={cls.id} value={cls.id}>{classIndex}: {cls.name}</option>
+                           ))}
+                         </select>
                          <div className="grid grid-cols-2 gap-x-4 gap-y-1">
-                             <p className="text-sm"><span className="font-semibold text-gray-100">X:</span> {coords.x} px</p>
-                             <p className="text-sm"><span className="font-semibold text-gray-100">Y:</span> {coords.y} px</p>
-                             <p className="text-sm"><span className="font-semibold text-gray-100">Width:</span> {coords.width} px</p>
-                             <p className="text-sm"><span className="font-semibold text-gray-100">Height:</span> {coords.height} px</p>
+                             <CoordinateInput label="X" value={coords.x} disabled={coords.locked} onCommit={(value) => handleSelectionRectChange(coords.id, 'x', value)} />
+                             <CoordinateInput label="Y" value={coords.y} disabled={coords.locked} onCommit={(value) => handleSelectionRectChange(coords.id, 'y', value)} />
+                             <CoordinateInput label="Width" value={coords.width} min={MIN_BOX_SIZE} disabled={coords.locked} onCommit={(value) => handleSelectionRectChange(coords.id, 'width', value)} />
+                             <CoordinateInput label="Height" value={coords.height} min={MIN_BOX_SIZE} disabled={coords.locked} onCommit={(value) => handleSelectionRectChange(coords.id, 'height', value)} />
+                             {(tool === 'obb' || coords.angle !== 0) && (
+                               <CoordinateInput label="Angle" unit="°" value={Math.round(coords.angle)} disabled={coords.locked} onCommit={(value) => handleSelectionAngleChange(coords.id, value)} />
+                             )}
+                         </div>
+                         <div className="flex space-x-4 mt-2 text-xs text-gray-400">
+                             <label className="flex items-center space-x-1 cursor-pointer">
+                                 <input type="checkbox" checked={coords.difficult} onChange={() => handleToggleFlag(coords.id, 'difficult')} />
+                                 <span>Difficult</span>
+                             </label>
+                             <label className="flex items-center space-x-1 cursor-pointer">
+                                 <input type="checkbox" checked={coords.truncated} onChange={() => handleToggleFlag(coords.id, 'truncated')} />
+                                 <span>Truncated</span>
+                             </label>
                          </div>
+                         {coords.keypoints && (
+                           <details className="mt-2 text-xs">
+                             <summary className="cursor-pointer text-gray-400">
+                               Keypoints ({coords.keypoints.filter(k => k.visibility > 0).length}/{coords.keypoints.length})
+                             </summary>
+                             <ul className="mt-1 space-y-1">
+                               {coords.keypoints.map((keypoint, i) => (
+                                 <li key={i} className="flex items-center justify-between">
+                                   <span className={keypoint.visibility ? 'text-gray-300' : 'text-gray-500'}>{skeleton.keypoints[i]}</span>
+                                   <select
+                                     value={keypoint.visibility}
+                                     disabled={coords.locked || keypoint.visibility === 0}
+                                     onChange={(e) => handleKeypointVisibilityChange(coords.id, i, Number(e.target.value) as KeypointVisibility)}
+                                     className="bg-gray-900 border border-gray-600 rounded px-1 text-xs disabled:opacity-60"
+                                   >
+                                     {([2, 1, 0] as KeypointVisibility[]).map(visibility => (
+                                       <option key={visibility} value={visibility}>{KEYPOINT_VISIBILITY_LABELS[visibility]}</option>
+                                     ))}
+                                   </select>
+                                 </li>
+                               ))}
+                             </ul>
+                           </details>
+                         )}
                       </div>
                     )
                   ))}
@@ -431,12 +1419,59 @@ const App: React.FC = () => {
               )}
             </div>
 
+            {currentImage && (
+              <ReviewPanel
+                image={currentImage}
+                classes={classes}
+                selectedIds={selectedIds}
+                reviewerName={reviewerName}
+                onReviewerNameChange={handleReviewerNameChange}
+                onStatusChange={(status) => handleSetImageStatus(currentImageIndex, status)}
+                onAssigneeChange={(assignee) => updateCurrentImage(image => ({ ...image, assignee }))}
+                onAddComment={handleAddComment}
+                onToggleResolved={handleToggleCommentResolved}
+                onDeleteComment={handleDeleteComment}
+                onSelectBox={(id) => setSelectedIds([id])}
+              />
+            )}
+
+            {images.length > 0 && (
+              <QualityPanel
+                images={images}
+                currentImageId={currentImage?.id ?? null}
+                issues={qualityIssues}
+                settings={qualitySettings}
+                onSettingsChange={handleQualitySettingsChange}
+                onSelectIssue={handleSelectIssue}
+              />
+            )}
+
             <div className="bg-gray-800/50 rounded-lg p-6 border border-gray-700">
-              <h2 className="text-xl font-semibold mb-4">YOLO Bounding Box Format</h2>
-              {yoloString ? (
+              <div className="flex justify-between items-center mb-4">
+                <select
+                  value={outputFormat}
+                  onChange={(e) => setOutputFormat(e.target.value as OutputFormat)}
+                  className="text-xl font-semibold bg-transparent outline-none cursor-pointer"
+                  aria-label="Output format"
+                >
+                  {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map(format => (
+                    <option key={format} value={format} className="text-base bg-gray-800">{OUTPUT_FORMATS[format].label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => labelInputRef.current?.click()}
+                  disabled={!currentImage}
+                  title="Replace this image's boxes with a YOLO .txt file"
+                  className="flex items-center text-sm p-1.5 rounded-md text-cyan-400 hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <UploadIcon className="w-4 h-4 mr-1" /> Import .txt
+                </button>
+                <input type="file" ref={labelInputRef} onChange={handleLabelFileChange} accept=".txt,text/plain" className="hidden" />
+              </div>
+              {outputString ? (
                 <div className="space-y-4">
                   <pre className="bg-gray-900 rounded-md p-4 text-cyan-300 overflow-x-auto text-sm max-h-48">
-                    <code>{yoloString}</code>
+                    <code>{outputString}</code>
                   </pre>
                   <div className="flex space-x-2">
                     <button
@@ -447,18 +1482,84 @@ const App: React.FC = () => {
                     </button>
                     <button
                       onClick={handleSaveToFile}
-                      disabled={!fileName || isSavingToDrive || !isGoogleConfigured}
+                      disabled={!fileName || isSavingLabels || (imageSource?.kind === 'drive' && !isGoogleConfigured && !isDriveMocked)}
                       className="flex items-center justify-center w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                      {driveFileMeta ? <GoogleDriveIcon className="w-5 h-5 mr-2" /> : <DownloadIcon className="w-5 h-5 mr-2" />}
-                      {isSavingToDrive ? 'Saving...' : (driveFileMeta ? 'Save to Drive' : 'Save to .txt')}
+                      {!sourceProvider || !imageSource ? <DownloadIcon className="w-5 h-5 mr-2" />
+                        : imageSource.kind === 'drive' ? <GoogleDriveIcon className="w-5 h-5 mr-2" />
+                        : imageSource.kind === 'local' ? <FolderIcon className="w-5 h-5 mr-2" />
+                        : <DatabaseIcon className="w-5 h-5 mr-2" />}
+                      {isSavingLabels ? 'Saving...' : (sourceProvider ? `Save to ${sourceLabel}` : `Save to .${outputFormatInfo.extension}`)}
                     </button>
                   </div>
                 </div>
               ) : (
-                <p className="text-gray-500">Selection coordinates in YOLO format will appear here.</p>
+                <p className="text-gray-500">Selection coordinates in {outputFormatInfo.label} will appear here.</p>
               )}
             </div>
+
+            <AutoAnnotatePanel
+              images={images}
+              currentImage={currentImage}
+              classes={classes}
+              onProposals={handleSetProposals}
+              onAcceptAll={() => handleAcceptProposals()}
+              onRejectAll={() => handleRejectProposals()}
+              onNotify={showToast}
+            />
+
+            {images.length > 0 && (
+              <EvaluationPanel
+                images={images}
+                currentImage={currentImage}
+                classes={classes}
+                settings={evaluationSettings}
+                onSettingsChange={setEvaluationSettings}
+                onLoadPredictions={handleLoadPredictions}
+                onClearPredictions={handleClearPredictions}
+              />
+            )}
+
+            <StoragePanel
+              labelSubfolder={labelSubfolder}
+              onLabelSubfolderChange={handleLabelSubfolderChange}
+              canOpenLocalFolder={isLocalFolderSupported()}
+              isOpening={isOpeningStorage}
+              connections={Object.values(storageProviders).map(provider => provider.name)}
+              onOpenLocalFolder={handleOpenLocalFolder}
+              onOpenS3={handleOpenS3}
+            />
+
+            <ProjectPanel
+              hasImages={images.length > 0}
+              canOpenFromDrive={isSignedIn && gapiReady && isGoogleConfigured}
+              onSaveProject={handleProjectSave}
+              onOpenProject={handleProjectOpen}
+              onOpenProjectFromDrive={createProjectPicker}
+            />
+
+            <DatasetPanel
+              images={images}
+              onExportCoco={handleCocoExport}
+              onImportCoco={handleCocoImport}
+              onExportDataset={handleDatasetExport}
+            />
+
+            <CropPanel
+              hasCurrentSelections={selections.length > 0}
+              hasAnySelections={images.some(image => getCurrentSelections(image).length > 0)}
+              onExportCrops={handleCropExport}
+            />
+
+            {isSessionStorageAvailable() && (
+              <SessionPanel
+                sessions={sessions}
+                currentSessionId={sessionId}
+                storageUsage={storageUsage}
+                onOpenSession={handleOpenSession}
+                onDeleteSession={handleDeleteSession}
+              />
+            )}
           </div>
         </div>
       </main>
@@ -0,0 +1,220 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { AnnotationClass, ImageItem, Proposal } from '../types';
+import { SparklesIcon, UploadIcon, CheckIcon, CloseIcon } from './Icons';
+import type { ToastKind } from './Toasts';
+import { getCurrentSelections } from '../utils/images';
+import {
+  ClassMapping,
+  DEFAULT_DETECTION_SETTINGS,
+  DetectionSettings,
+  buildClassMapping,
+  decodeYoloOutput,
+  nonMaxSuppression,
+  parseClassNames,
+  readModelClassNames,
+  toProposals,
+} from '../utils/detection';
+import { Detector, createDetector } from '../utils/detectionWorker';
+
+interface AutoAnnotatePanelProps {
+  images: ImageItem[];
+  currentImage: ImageItem | null;
+  classes: AnnotationClass[];
+  onProposals: (imageId: string, proposals: Proposal[]) => void;
+  onAcceptAll: () => void;
+  onRejectAll: () => void;
+  onNotify: (kind: ToastKind, message: string) => void;
+}
+
+const AutoAnnotatePanel: React.FC<AutoAnnotatePanelProps> = ({ images, currentImage, classes, onProposals, onAcceptAll, onRejectAll, onNotify }) => {
+  const modelInputRef = useRef<HTMLInputElement>(null);
+  const detectorRef = useRef<Detector | null>(null);
+  const cancelRef = useRef(false);
+  const [modelName, setModelName] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [modelNames, setModelNames] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ClassMapping>([]);
+  const [settings, setSettings] = useState<DetectionSettings>(DEFAULT_DETECTION_SETTINGS);
+  const [skipAnnotated, setSkipAnnotated] = useState(true);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const proposalCount = currentImage?.proposals?.length ?? 0;
+  const isRunning = progress !== null;
+  const canRun = !!detectorRef.current && modelNames.length > 0 && mapping.some(Boolean) && !isRunning && !isLoading;
+
+  useEffect(() => () => detectorRef.current?.dispose(), []);
+
+  const updateNames = (names: string[]) => {
+    setModelNames(names);
+    setMapping(buildClassMapping(names, classes));
+  };
+
+  const handleModelChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsLoading(true);
+    try {
+      const model = await file.arrayBuffer();
+      detectorRef.current?.dispose();
+      detectorRef.current = null;
+      detectorRef.current = await createDetector(model);
+      setModelName(file.name);
+      const names = readModelClassNames(model);
+      updateNames(names);
+      if (names.length === 0) onNotify('info', 'The model has no class names; enter them below, one per line');
+    } catch (error) {
+      setModelName(null);
+      onNotify('error', `Could not load ${file.name}: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const detect = async (image: ImageItem): Promise<Proposal[]> => {
+    const bitmap = await createImageBitmap(image.blob);
+    const { output, letterbox } = await detectorRef.current!.run(bitmap, settings.inputSize);
+    const detections = decodeYoloOutput(output.data, output.dims, letterbox, modelNames.length, settings.confidence);
+    return toProposals(nonMaxSuppression(detections, settings.iou, settings.maxDetections), modelNames, mapping);
+  };
+
+  // Images are processed one at a time; each result replaces that image's earlier proposals
+  const run = async (targets: ImageItem[]) => {
+    cancelRef.current = false;
+    setProgress({ done: 0, total: targets.length });
+    let proposed = 0;
+    try {
+      for (let i = 0; i < targets.length && !cancelRef.current; i++) {
+        const proposals = await detect(targets[i]);
+        proposed += proposals.length;
+        onProposals(targets[i].id, proposals);
+        setProgress({ done: i + 1, total: targets.length });
+      }
+      onNotify('success', `${proposed} box${proposed === 1 ? '' : 'es'} proposed${cancelRef.current ? ' before stopping' : ''}`);
+    } catch (error) {
+      onNotify('error', `Auto-annotation failed: ${(error as Error).message}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const batchTargets = images.filter(image => !skipAnnotated || getCurrentSelections(image).length === 0);
+
+  const setSetting = (key: keyof DetectionSettings, value: number) => {
+    if (Number.isFinite(value)) setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-6 border border-gray-700">
+      <h2 className="text-xl font-semibold mb-4 flex items-center">
+        <SparklesIcon className="w-6 h-6 mr-2 text-cyan-400" />
+        Auto-annotate
+      </h2>
+      <button
+        onClick={() => modelInputRef.current?.click()}
+        disabled={isLoading || isRunning}
+        title="Load a YOLO detection model exported to ONNX; it runs on the CPU in this browser"
+        className="flex items-center justify-center w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <UploadIcon className="w-5 h-5 mr-2" /> {isLoading ? 'Loading model...' : modelName ? `Model: ${modelName}` : 'Load ONNX Model'}
+      </button>
+      <input type="file" ref={modelInputRef} onChange={handleModelChange} accept=".onnx" className="hidden" />
+
+      {modelName && (
+        <div className="mt-4 space-y-3 text-sm text-gray-300">
+          <div className="grid grid-cols-3 gap-2">
+            <label className="flex flex-col text-xs text-gray-400">
+              Confidence
+              <input type="number" min={0.01} max={1} step={0.05} value={settings.confidence} onChange={(e) => setSetting('confidence', Number(e.target.value))} className="mt-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-gray-100" />
+            </label>
+            <label className="flex flex-col text-xs text-gray-400">
+              NMS IoU
+              <input type="number" min={0.05} max={0.95} step={0.05} value={settings.iou} onChange={(e) => setSetting('iou', Number(e.target.value))} className="mt-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-gray-100" />
+            </label>
+            <label className="flex flex-col text-xs text-gray-400">
+              Input size
+              <input type="number" min={32} step={32} value={settings.inputSize} onChange={(e) => setSetting('inputSize', Number(e.target.value))} className="mt-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-gray-100" />
+            </label>
+          </div>
+
+          <details open={modelNames.length === 0}>
+            <summary className="cursor-pointer text-gray-400">Class mapping ({mapping.filter(Boolean).length}/{modelNames.length} mapped)</summary>
+            <textarea
+              key={modelNames.join('\n')}
+              defaultValue={modelNames.join('\n')}
+              onBlur={(e) => updateNames(parseClassNames(e.target.value))}
+              rows={3}
+              placeholder="Model class names, one per line"
+              className="w-full mt-2 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-100"
+            />
+            <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto pr-1">
+              {modelNames.map((name, i) => (
+                <li key={i} className="flex items-center justify-between text-xs">
+                  <span className="truncate mr-2">{i}: {name}</span>
+                  <select
+                    value={mapping[i] ?? ''}
+                    onChange={(e) => setMapping(prev => prev.map((id, j) => j === i ? e.target.value || null : id))}
+                    className="bg-gray-900 border border-gray-600 rounded px-1"
+                  >
+                    <option value="">Ignore</option>
+                    {classes.map(cls => <option key={cls.id} value={cls.id}>{cls.name}</option>)}
+                  </select>
+                </li>
+              ))}
+            </ul>
+            {modelNames.length > 0 && (
+              <button onClick={() => setMapping(buildClassMapping(modelNames, classes))} className="mt-1 text-xs text-cyan-400 hover:underline">
+                Match by name
+              </button>
+            )}
+          </details>
+
+          <div className="flex space-x-2">
+            <button
+              onClick={() => currentImage && run([currentImage])}
+              disabled={!canRun || !currentImage}
+              className="flex items-center justify-center w-full px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Detect This Image
+            </button>
+            <button
+              onClick={() => run(batchTargets)}
+              disabled={!canRun || batchTargets.length === 0}
+              className="flex items-center justify-center w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Detect All ({batchTargets.length})
+            </button>
+          </div>
+          <label className="flex items-center space-x-2 text-xs text-gray-400 cursor-pointer">
+            <input type="checkbox" checked={skipAnnotated} onChange={(e) => setSkipAnnotated(e.target.checked)} />
+            <span>Skip images that already have boxes</span>
+          </label>
+
+          {progress && (
+            <div>
+              <div className="flex justify-between text-xs text-gray-400 mb-1">
+                <span>Detecting {progress.done}/{progress.total}</span>
+                <button onClick={() => { cancelRef.current = true; }} className="text-red-400 hover:underline">Stop</button>
+              </div>
+              <div className="h-2 bg-gray-700 rounded">
+                <div className="h-2 bg-cyan-500 rounded" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {proposalCount > 0 && (
+        <div className="flex items-center justify-between mt-4 text-sm">
+          <span className="text-gray-300">{proposalCount} proposal{proposalCount === 1 ? '' : 's'} on this image</span>
+          <div className="flex items-center space-x-3">
+            <button onClick={onAcceptAll} className="flex items-center text-green-400 hover:underline"><CheckIcon className="w-4 h-4 mr-1" />Accept all</button>
+            <button onClick={onRejectAll} className="flex items-center text-red-400 hover:underline"><CloseIcon className="w-4 h-4 mr-1" />Reject all</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AutoAnnotatePanel;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import type { AnnotationClass } from '../types';
+import { TagIcon, PlusIcon, ChevronUpIcon, ChevronDownIcon, TrashIcon } from './Icons';
+
+interface ClassManagerProps {
+  classes: AnnotationClass[];
+  activeClassId: string | null;
+  onActiveClassChange: (id: string) => void;
+  onAddClass: (name: string) => void;
+  onUpdateClass: (id: string, changes: Partial<Omit<AnnotationClass, 'id'>>) => void;
+  onMoveClass: (id: string, direction: -1 | 1) => void;
+  onDeleteClass: (id: string) => void;
+  countsByClass: Record<string, number>;
+}
+
+const ClassManager: React.FC<ClassManagerProps> = ({
+  classes,
+  activeClassId,
+  onActiveClassChange,
+  onAddClass,
+  onUpdateClass,
+  onMoveClass,
+  onDeleteClass,
+  countsByClass,
+}) => {
+  const [newClassName, setNewClassName] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newClassName.trim();
+    if (!name) return;
+    onAddClass(name);
+    setNewClassName('');
+  };
+
+  const handleDelete = (cls: AnnotationClass) => {
+    const count = countsByClass[cls.id] || 0;
+    if (count > 0 && !window.confirm(`${count} box(es) use "${cls.name}". They will be moved to the first remaining class. Continue?`)) {
+      return;
+    }
+    onDeleteClass(cls.id);
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-6 border border-gray-700">
+      <h2 className="text-xl font-semibold mb-4 flex items-center">
+        <TagIcon className="w-6 h-6 mr-2 text-cyan-400" />
+        Classes
+      </h2>
+      <ul className="space-y-2 mb-4">
+        {classes.map((cls, index) => (
+          <li
+            key={cls.id}
+            className={`flex items-center gap-2 p-2 rounded-md ${cls.id === activeClassId ? 'bg-gray-700/60 ring-1 ring-cyan-500' : 'bg-gray-700/30'}`}
+          >
+            <input
+              type="radio"
+              name="active-class"
+              checked={cls.id === activeClassId}
+              onChange={() => onActiveClassChange(cls.id)}
+              title="Use for new boxes"
+            />
+            <span className="text-xs font-mono text-gray-400 w-5 text-right">{index}</span>
+            <input
+              type="color"
+              value={cls.color}
+              onChange={(e) => onUpdateClass(cls.id, { color: e.target.value })}
+              className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer"
+              title="Class color"
+            />
+            <input
+              type="text"
+              value={cls.name}
+              onChange={(e) => onUpdateClass(cls.id, { name: e.target.value })}
+              className="flex-grow min-w-0 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm"
+              aria-label={`Class ${index} name`}
+            />
+            <span className="text-xs text-gray-400 w-8 text-right" title="Boxes with this class">{countsByClass[cls.id] || 0}</span>
+            <button onClick={() => onMoveClass(cls.id, -1)} disabled={index === 0} title="Move up" className="disabled:opacity-30">
+              <ChevronUpIcon className="w-4 h-4 text-gray-400 hover:text-white" />
+            </button>
+            <button onClick={() => onMoveClass(cls.id, 1)} disabled={index === classes.length - 1} title="Move down" className="disabled:opacity-30">
+              <ChevronDownIcon className="w-4 h-4 text-gray-400 hover:text-white" />
+            </button>
+            <button onClick={() => handleDelete(cls)} disabled={classes.length === 1} title="Delete" className="disabled:opacity-30">
+              <TrashIcon className="w-4 h-4 text-gray-400 hover:text-red-400" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <input
+          type="text"
+          value={newClassName}
+          onChange={(e) => setNewClassName(e.target.value)}
+          placeholder="New class name"
+          className="flex-grow min-w-0 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={!newClassName.trim()}
+          className="flex items-center px-3 py-1 bg-cyan-600 hover:bg-cyan-500 text-white text-sm font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <PlusIcon className="w-4 h-4 mr-1" /> Add
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ClassManager;
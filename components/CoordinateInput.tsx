@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+
+interface CoordinateInputProps {
+  label: string;
+  unit?: string;
+  value: number;
+  min?: number;
+  disabled?: boolean;
+  onCommit: (value: number) => void;
+}
+
+// Edits are kept locally and only committed on Enter or blur, so typing a
+// multi-digit number produces a single undo step instead of one per keystroke.
+const CoordinateInput: React.FC<CoordinateInputProps> = ({ label, unit = 'px', value, min = -Infinity, disabled, onCommit }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  // The draft falls back to `value`; if the commit changes it, the effect above picks up the new one
+  const commit = () => {
+    const parsed = Math.max(min, Math.round(Number(draft)));
+    setDraft(String(value));
+    if (draft.trim() === '' || !Number.isFinite(parsed) || parsed === value) return;
+    onCommit(parsed);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.currentTarget.blur();
+    } else if (e.key === 'Escape') {
+      setDraft(String(value));
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <label className="flex items-center text-sm">
+      <span className="font-semibold text-gray-100 mr-1">{label}:</span>
+      <input
+        type="number"
+        value={draft}
+        min={Number.isFinite(min) ? min : undefined}
+        disabled={disabled}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        className="w-20 bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-gray-300 disabled:opacity-60"
+      />
+      <span className="ml-1">{unit}</span>
+    </label>
+  );
+};
+
+export default CoordinateInput;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { ScissorsIcon, DownloadIcon } from './Icons';
+import { CropFormat, CropOptions, DEFAULT_CROP_OPTIONS } from '../utils/crop';
+
+interface CropPanelProps {
+  hasCurrentSelections: boolean;
+  hasAnySelections: boolean;
+  onExportCrops: (scope: 'current' | 'all', options: CropOptions) => Promise<void>;
+}
+
+const inputClasses = 'mt-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-gray-100';
+
+const CropPanel: React.FC<CropPanelProps> = ({ hasCurrentSelections, hasAnySelections, onExportCrops }) => {
+  const [options, setOptions] = useState<CropOptions>(DEFAULT_CROP_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const update = (changes: Partial<CropOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+  const toNonNegativeInt = (value: string) => Math.max(0, Math.trunc(Number(value)) || 0);
+
+  const handleExport = async (scope: 'current' | 'all') => {
+    setIsExporting(true);
+    try {
+      await onExportCrops(scope, options);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-6 border border-gray-700">
+      <h2 className="text-xl font-semibold mb-4 flex items-center">
+        <ScissorsIcon className="w-6 h-6 mr-2 text-cyan-400" />
+        Crop Selections
+      </h2>
+      <div className="grid grid-cols-3 gap-2 mb-3 text-sm">
+        <label className="flex flex-col text-gray-400">
+          Format
+          <select value={options.format} onChange={(e) => update({ format: e.target.value as CropFormat })} className={inputClasses}>
+            <option value="png">PNG</option>
+            <option value="jpeg">JPEG</option>
+            <option value="webp">WebP</option>
+          </select>
+        </label>
+        <label className="flex flex-col text-gray-400">
+          Quality
+          <input
+            type="number"
+            min={10}
+            max={100}
+            value={Math.round(options.quality * 100)}
+            disabled={options.format === 'png'}
+            onChange={(e) => update({ quality: Math.max(10, Math.min(100, Number(e.target.value))) / 100 })}
+            className={`${inputClasses} disabled:opacity-50`}
+          />
+        </label>
+        <label className="flex flex-col text-gray-400">
+          Padding (px)
+          <input type="number" min={0} value={options.padding} onChange={(e) => update({ padding: toNonNegativeInt(e.target.value) })} className={inputClasses} />
+        </label>
+        <label className="flex flex-col text-gray-400">
+          Resize width
+          <input type="number" min={0} value={options.resizeWidth} onChange={(e) => update({ resizeWidth: toNonNegativeInt(e.target.value) })} className={inputClasses} title="0 keeps the original size" />
+        </label>
+        <label className="flex flex-col text-gray-400">
+          Resize height
+          <input type="number" min={0} value={options.resizeHeight} onChange={(e) => update({ resizeHeight: toNonNegativeInt(e.target.value) })} className={inputClasses} title="0 keeps the original size" />
+        </label>
+        <label className="flex items-end pb-1 space-x-2 text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={options.squarePad} onChange={(e) => update({ squarePad: e.target.checked })} />
+          <span>Square pad</span>
+        </label>
+        <label className="flex flex-col col-span-3 text-gray-400">
+          File name
+          <input
+            type="text"
+            value={options.nameTemplate}
+            onChange={(e) => update({ nameTemplate: e.target.value })}
+            className={`${inputClasses} font-mono`}
+            title="Use {image}, {class} and {index}"
+          />
+        </label>
+      </div>
+      <div className="flex space-x-2">
+        <button
+          onClick={() => handleExport('current')}
+          disabled={!hasCurrentSelections || isExporting}
+          className="flex items-center justify-center w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <DownloadIcon className="w-5 h-5 mr-2" /> This Image
+        </button>
+        <button
+          onClick={() => handleExport('all')}
+          disabled={!hasAnySelections || isExporting}
+          className="flex items-center justify-center w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <DownloadIcon className="w-5 h-5 mr-2" /> {isExporting ? 'Cropping...' : 'All Images'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CropPanel;
@@ -0,0 +1,104 @@
+import React, { useRef, useState } from 'react';
+import type { ImageItem } from '../types';
+import { DatabaseIcon, DownloadIcon, UploadIcon } from './Icons';
+import { getCurrentSelections } from '../utils/images';
+import type { SplitOptions } from '../utils/split';
+
+interface DatasetPanelProps {
+  images: ImageItem[];
+  onExportCoco: () => void;
+  onImportCoco: (file: File) => void;
+  onExportDataset: (options: SplitOptions) => Promise<void>;
+}
+
+const DatasetPanel: React.FC<DatasetPanelProps> = ({ images, onExportCoco, onImportCoco, onExportDataset }) => {
+  const cocoInputRef = useRef<HTMLInputElement>(null);
+  const [valPercent, setValPercent] = useState(20);
+  const [seed, setSeed] = useState(42);
+  const [stratify, setStratify] = useState(false);
+  const [isExportingDataset, setIsExportingDataset] = useState(false);
+  const boxCount = images.reduce((sum, image) => sum + getCurrentSelections(image).length, 0);
+  const approvedCount = images.filter(image => image.status === 'approved').length;
+
+  const handleCocoFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportCoco(file);
+    e.target.value = '';
+  };
+
+  const handleExportDataset = async () => {
+    setIsExportingDataset(true);
+    try {
+      await onExportDataset({ valRatio: valPercent / 100, seed, stratify });
+    } finally {
+      setIsExportingDataset(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-6 border border-gray-700">
+      <h2 className="text-xl font-semibold mb-2 flex items-center">
+        <DatabaseIcon className="w-6 h-6 mr-2 text-cyan-400" />
+        Dataset
+      </h2>
+      <p className="text-sm text-gray-400 mb-4">
+        {images.length} image{images.length === 1 ? '' : 's'} · {boxCount} box{boxCount === 1 ? '' : 'es'} · {approvedCount} approved
+      </p>
+      <div className="flex space-x-2">
+        <button
+          onClick={onExportCoco}
+          disabled={images.length === 0}
+          className="flex items-center justify-center w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <DownloadIcon className="w-5 h-5 mr-2" /> Export COCO
+        </button>
+        <button
+          onClick={() => cocoInputRef.current?.click()}
+          disabled={images.length === 0}
+          title="Load boxes for the queued images from a COCO instances file"
+          className="flex items-center justify-center w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <UploadIcon className="w-5 h-5 mr-2" /> Import COCO
+        </button>
+        <input type="file" ref={cocoInputRef} onChange={handleCocoFileChange} accept=".json,application/json" className="hidden" />
+      </div>
+
+      <h3 className="font-semibold mt-6 mb-2">YOLO Training Dataset</h3>
+      <div className="grid grid-cols-3 gap-2 mb-3 text-sm">
+        <label className="flex flex-col text-gray-400">
+          Validation %
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={valPercent}
+            onChange={(e) => setValPercent(Math.max(0, Math.min(100, Number(e.target.value))))}
+            className="mt-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-gray-100"
+          />
+        </label>
+        <label className="flex flex-col text-gray-400">
+          Seed
+          <input
+            type="number"
+            value={seed}
+            onChange={(e) => setSeed(Math.trunc(Number(e.target.value)))}
+            className="mt-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-gray-100"
+          />
+        </label>
+        <label className="flex items-end pb-1 space-x-2 text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={stratify} onChange={(e) => setStratify(e.target.checked)} />
+          <span>Stratify by class</span>
+        </label>
+      </div>
+      <button
+        onClick={handleExportDataset}
+        disabled={images.length === 0 || isExportingDataset}
+        className="flex items-center justify-center w-full px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <DownloadIcon className="w-5 h-5 mr-2" /> {isExportingDataset ? 'Building zip...' : 'Export Dataset (.zip)'}
+      </button>
+    </div>
+  );
+};
+
+export default DatasetPanel;
@@ -0,0 +1,152 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { AnnotationClass, ImageItem } from '../types';
+import { TargetIcon, UploadIcon } from './Icons';
+import { EvaluationMetrics, EvaluationSettings, PREDICTION_COLORS, evaluatePredictions } from '../utils/evaluation';
+
+interface EvaluationPanelProps {
+  images: ImageItem[];
+  currentImage: ImageItem | null;
+  classes: AnnotationClass[];
+  settings: EvaluationSettings;
+  onSettingsChange: (settings: EvaluationSettings) => void;
+  onLoadPredictions: (files: File[]) => Promise<void>;
+  onClearPredictions: () => void;
+}
+
+const inputClasses = 'mt-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-gray-100';
+
+const formatMetric = (value: number | null) => value === null ? '—' : value.toFixed(3);
+
+const METRIC_ROWS: [string, (metrics: EvaluationMetrics) => string][] = [
+  ['Precision', metrics => formatMetric(metrics.precision)],
+  ['Recall', metrics => formatMetric(metrics.recall)],
+  ['mAP@0.5', metrics => formatMetric(metrics.map50)],
+  ['mAP@0.5:0.95', metrics => formatMetric(metrics.map5095)],
+  ['TP / FP / FN', metrics => `${metrics.truePositives} / ${metrics.falsePositives} / ${metrics.falseNegatives}`],
+];
+
+const EvaluationPanel: React.FC<EvaluationPanelProps> = ({ images, currentImage, classes, settings, onSettingsChange, onLoadPredictions, onClearPredictions }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // The batch is every image a prediction file was loaded for, including files without boxes
+  const batch = useMemo(() => images.filter(image => image.predictions), [images]);
+  const batchMetrics = useMemo(() => evaluatePredictions(batch, classes, settings), [batch, classes, settings]);
+  const imageMetrics = useMemo(
+    () => currentImage?.predictions ? evaluatePredictions([currentImage], classes, settings) : null,
+    [currentImage, classes, settings],
+  );
+
+  const update = (changes: Partial<EvaluationSettings>) => onSettingsChange({ ...settings, ...changes });
+  const setThreshold = (key: 'iou' | 'confidence', value: number) => {
+    if (value >= 0 && value <= 1) update({ [key]: value });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIsLoading(true);
+    try {
+      await onLoadPredictions(files);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-6 border border-gray-700">
+      <h2 className="text-xl font-semibold mb-4 flex items-center">
+        <TargetIcon className="w-6 h-6 mr-2 text-cyan-400" />
+        Predictions vs. Labels
+      </h2>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isLoading}
+        title="YOLO .txt files named like their images; a sixth column is read as the confidence"
+        className="flex items-center justify-center w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <UploadIcon className="w-5 h-5 mr-2" /> {isLoading ? 'Loading...' : 'Load Prediction Files'}
+      </button>
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".txt,text/plain" multiple className="hidden" />
+
+      {batch.length > 0 && (
+        <div className="mt-4 space-y-3 text-sm text-gray-300">
+          <div className="flex items-center justify-between">
+            <span>Predictions loaded for {batch.length} image{batch.length === 1 ? '' : 's'}</span>
+            <button onClick={onClearPredictions} className="text-red-400 hover:underline">Clear</button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <label className="flex flex-col text-xs text-gray-400">
+              Match IoU
+              <input type="number" min={0.05} max={0.95} step={0.05} value={settings.iou} onChange={(e) => setThreshold('iou', Number(e.target.value))} className={inputClasses} />
+            </label>
+            <label className="flex flex-col text-xs text-gray-400">
+              Confidence
+              <input type="number" min={0} max={1} step={0.05} value={settings.confidence} onChange={(e) => setThreshold('confidence', Number(e.target.value))} className={inputClasses} />
+            </label>
+            <label className="flex items-end pb-1 space-x-2 text-xs text-gray-400 cursor-pointer">
+              <input type="checkbox" checked={settings.showPredictions} onChange={(e) => update({ showPredictions: e.target.checked })} />
+              <span>Overlay</span>
+            </label>
+          </div>
+
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+            <span className="flex items-center"><span className="w-3 h-3 mr-1 border-2" style={{ borderColor: PREDICTION_COLORS.match }} />Matched</span>
+            <span className="flex items-center"><span className="w-3 h-3 mr-1 border-2 border-dashed" style={{ borderColor: PREDICTION_COLORS.falsePositive }} />False positive</span>
+            <span className="flex items-center"><span className="w-3 h-3 mr-1 border-2" style={{ borderColor: PREDICTION_COLORS.missed }} />Missed label</span>
+          </div>
+
+          <table className="w-full text-sm tabular-nums">
+            <thead>
+              <tr className="text-xs text-gray-400">
+                <th className="text-left font-normal"></th>
+                <th className="text-right font-normal">This image</th>
+                <th className="text-right font-normal">All {batch.length}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {METRIC_ROWS.map(([label, format]) => (
+                <tr key={label}>
+                  <td className="text-gray-400">{label}</td>
+                  <td className="text-right">{imageMetrics ? format(imageMetrics) : '—'}</td>
+                  <td className="text-right">{format(batchMetrics)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500">Precision and recall use the IoU and confidence above; mAP uses every prediction.</p>
+
+          <details>
+            <summary className="cursor-pointer text-gray-400">Per class (all images)</summary>
+            <table className="w-full mt-2 text-xs tabular-nums">
+              <thead>
+                <tr className="text-gray-400">
+                  <th className="text-left font-normal">Class</th>
+                  <th className="text-right font-normal">Labels</th>
+                  <th className="text-right font-normal">Predicted</th>
+                  <th className="text-right font-normal">AP50</th>
+                  <th className="text-right font-normal">AP50-95</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batchMetrics.perClass.filter(metrics => metrics.groundTruth > 0 || metrics.predictions > 0).map(metrics => (
+                  <tr key={metrics.classId}>
+                    <td className="truncate max-w-[8rem]">{metrics.name}</td>
+                    <td className="text-right">{metrics.groundTruth}</td>
+                    <td className="text-right">{metrics.predictions}</td>
+                    <td className="text-right">{formatMetric(metrics.ap50)}</td>
+                    <td className="text-right">{formatMetric(metrics.ap5095)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </details>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EvaluationPanel;
@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImageItem, ImageStatus } from '../types';
+import { ChevronLeftIcon, ChevronRightIcon, CheckIcon, PlusIcon } from './Icons';
+import { getCurrentSelections, isImageFile, isLabelFile, isJsonFile } from '../utils/images';
+import { IMAGE_STATUSES, IMAGE_STATUS_ORDER, getOpenComments, isLabelingFinished } from '../utils/review';
+
+interface ImageQueueProps {
+  images: ImageItem[];
+  currentIndex: number;
+  onSelectImage: (index: number) => void;
+  onSetStatus: (index: number, status: ImageStatus) => void;
+  onAddImages: (files: File[]) => void;
+  onClearQueue: () => void;
+}
+
+const ImageQueue: React.FC<ImageQueueProps> = ({
+  images,
+  currentIndex,
+  onSelectImage,
+  onSetStatus,
+  onAddImages,
+  onClearQueue,
+}) => {
+  const stripRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [statusFilter, setStatusFilter] = useState<ImageStatus | 'all'>('all');
+  const current = images[currentIndex];
+
+  // The filter narrows the strip and previous/next; its counts update live as statuses change
+  const visible = images
+    .map((image, index) => ({ image, index }))
+    .filter(({ image }) => statusFilter === 'all' || image.status === statusFilter);
+  const previousIndex = [...visible].reverse().find(({ index }) => index < currentIndex)?.index;
+  const nextIndex = visible.find(({ index }) => index > currentIndex)?.index;
+  const countByStatus = (status: ImageStatus) => images.filter(image => image.status === status).length;
+
+  // Keep the current thumbnail in view while navigating
+  useEffect(() => {
+    const thumb = stripRef.current?.querySelector<HTMLElement>(`[data-index="${currentIndex}"]`);
+    thumb?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [currentIndex, statusFilter]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).filter(file => isImageFile(file) || isLabelFile(file) || isJsonFile(file));
+    if (files.length > 0) onAddImages(files);
+    e.target.value = '';
+  };
+
+  // Hands the image to review unless it already is; fixed images go back to review the same way
+  const handleMarkLabeledAndNext = () => {
+    if (!isLabelingFinished(current.status)) onSetStatus(currentIndex, 'labeled');
+    if (nextIndex !== undefined) onSelectImage(nextIndex);
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-md p-2 space-y-2">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center space-x-2">
+          <button onClick={() => onSelectImage(previousIndex!)} disabled={previousIndex === undefined} title="Previous image" className="p-1.5 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            <ChevronLeftIcon className="w-5 h-5" />
+          </button>
+          <span className="text-sm text-gray-300 tabular-nums">{currentIndex + 1} / {images.length}</span>
+          <button onClick={() => onSelectImage(nextIndex!)} disabled={nextIndex === undefined} title="Next image" className="p-1.5 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            <ChevronRightIcon className="w-5 h-5" />
+          </button>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as ImageStatus | 'all')}
+            title="Show images with this status"
+            className="bg-gray-900 border border-gray-600 rounded px-1 py-0.5 text-xs text-gray-200"
+          >
+            <option value="all">All ({images.length})</option>
+            {IMAGE_STATUS_ORDER.map(status => (
+              <option key={status} value={status}>{IMAGE_STATUSES[status].label} ({countByStatus(status)})</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleMarkLabeledAndNext}
+            className="flex items-center text-sm px-2 py-1 rounded-md bg-green-700 hover:bg-green-600 text-white transition-colors"
+          >
+            <CheckIcon className="w-4 h-4 mr-1" /> {current && isLabelingFinished(current.status) ? 'Next' : 'Labeled & Next'}
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} title="Add images" className="p-1.5 rounded-md hover:bg-gray-700 transition-colors">
+            <PlusIcon className="w-5 h-5" />
+          </button>
+          <button onClick={onClearQueue} className="text-sm text-red-400 hover:text-red-300 font-semibold">
+            Close All
+          </button>
+        </div>
+      </div>
+      <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/*,.txt,.json" multiple className="hidden" />
+      <div ref={stripRef} className="flex gap-2 overflow-x-auto pb-1">
+        {visible.map(({ image, index }) => {
+          const boxCount = getCurrentSelections(image).length;
+          const openComments = getOpenComments(image).length;
+          const status = IMAGE_STATUSES[image.status];
+          return (
+            <button
+              key={image.id}
+              data-index={index}
+              onClick={() => onSelectImage(index)}
+              title={`${image.fileName} · ${status.label}${image.assignee ? ` · ${image.assignee}` : ''}`}
+              className={`relative flex-shrink-0 w-16 h-16 rounded-md overflow-hidden border-2 ${index === currentIndex ? 'border-cyan-400' : 'border-gray-700'}`}
+            >
+              <img src={image.src} alt={image.fileName} loading="lazy" className="w-full h-full object-cover" />
+              {image.status === 'approved' ? (
+                <span className="absolute top-0.5 right-0.5 rounded-full p-0.5" style={{ backgroundColor: status.color }}>
+                  <CheckIcon className="w-3 h-3 text-white" />
+                </span>
+              ) : image.status !== 'unlabeled' && (
+                <span className="absolute top-1 right-1 w-2.5 h-2.5 rounded-full ring-1 ring-gray-900" style={{ backgroundColor: status.color }} />
+              )}
+              {boxCount > 0 && (
+                <span className="absolute bottom-0.5 left-0.5 bg-gray-900/80 text-[10px] text-gray-100 rounded px-1">{boxCount}</span>
+              )}
+              {openComments > 0 && (
+                <span className="absolute bottom-0.5 right-0.5 bg-orange-500 text-[10px] text-gray-900 font-semibold rounded px-1" title={`${openComments} open comment${openComments === 1 ? '' : 's'}`}>{openComments}</span>
+              )}
+            </button>
+          );
+        })}
+        {visible.length === 0 && <p className="text-xs text-gray-500 py-2">No images with this status</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ImageQueue;
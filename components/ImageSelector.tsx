@@ -1,23 +1,46 @@
 import React, { useState, useRef, useEffect } from 'react';
-import type { Point, Selection } from '../types';
-import { UploadIcon, TrashIcon, CloseIcon, UndoIcon, RedoIcon, GoogleDriveIcon } from './Icons';
+import type { Point, Selection, AnnotationClass, AnnotationTool, SkeletonTemplate, Proposal } from '../types';
+import { UploadIcon, TrashIcon, CloseIcon, UndoIcon, RedoIcon, GoogleDriveIcon, FolderIcon, ZoomInIcon, ZoomOutIcon, MaximizeIcon, CheckIcon, MagnetIcon } from './Icons';
+import { getClassById, UNASSIGNED_COLOR } from '../utils/classes';
+import { isImageFile, isLabelFile, isJsonFile } from '../utils/images';
+import { getSelectionCenter, isPointInSelection, rotatePoint, normalizeAngle, withPolygonPoints, translateSelection, getBoundingRect, getGroupBounds, getSelectionCorners, clampOffset, MIN_BOX_SIZE } from '../utils/geometry';
+import { SKELETON_TEMPLATES, getTemplateKeypoints, setKeypoint } from '../utils/keypoints';
+import { Keymap, formatBinding, getClassShortcutIndex, isTypingTarget, matchShortcut } from '../utils/keymap';
+import { readImagePixels, tightenSelection } from '../utils/tighten';
+import { PREDICTION_COLORS, PredictionComparison, getPredictionRect } from '../utils/evaluation';
+import { Viewport, centerViewport, fitViewport, zoomAroundPoint, WHEEL_ZOOM_STEP } from '../utils/viewport';
 
 interface ImageSelectorProps {
-  onImageUpload: (file: File) => void;
+  onImagesUpload: (files: File[]) => void;
   onOpenFromDrive: () => void;
   imageSrc: string | null;
   fileName: string;
   selections: Selection[];
   onSelectionsChange: (selections: Selection[] | ((prev: Selection[]) => Selection[])) => void;
-  onReset: () => void;
+  selectedIds: string[];
+  onSelectedIdsChange: (ids: string[]) => void;
+  classes: AnnotationClass[];
+  activeClassId: string | null;
+  onActiveClassChange: (id: string) => void;
+  keymap: Keymap;
+  tool: AnnotationTool;
+  onToolChange: (tool: AnnotationTool) => void;
+  skeleton: SkeletonTemplate;
+  onSkeletonChange: (id: string) => void;
+  snapToEdges: boolean;
+  onSnapToEdgesChange: (enabled: boolean) => void;
+  onRemoveImage: () => void;
   onImageDimensionsChange: (dims: { naturalWidth: number; naturalHeight: number; }) => void;
   onUndo: () => void;
   onRedo: () => void;
   canUndo: boolean;
   canRedo: boolean;
-  isSignedIn: boolean;
-  gapiReady: boolean;
-  isGoogleConfigured: boolean;
+  canOpenFromDrive: boolean;
+  proposals: Proposal[];
+  onAcceptProposal: (id: string) => void;
+  onRejectProposal: (id: string) => void;
+  predictionComparison: PredictionComparison | null;
+  isOverlayOpen: boolean; // A modal overlay (shortcuts, statistics) takes the keyboard
 }
 
 type DragAction =
@@ -27,48 +50,341 @@ type DragAction =
   | 'e-resize'
   | 's-resize'
   | 'w-resize'
+  | 'ne-resize'
+  | 'nw-resize'
+  | 'se-resize'
+  | 'sw-resize'
+  | 'rotate'
+  | 'vertex'
+  | 'keypoint'
+  | 'marquee'
   | null;
 
 const LOUPE_SIZE = 150;
 const LOUPE_RADIUS = LOUPE_SIZE / 2;
 const LOUPE_ZOOM_LEVEL = 2.5;
 const LOUPE_BORDER_WIDTH = 2; // The width of the loupe's border in pixels
+const BUTTON_ZOOM_STEP = 1.5;
+const NUDGE_STEP = 1; // Image pixels per arrow key press
+const NUDGE_STEP_LARGE = 10; // With Shift held
+const ROTATION_SNAP = 15; // Degrees, with Shift held while rotating
+const ROTATE_HANDLE_OFFSET = 28; // Screen pixels above the box
+const POLYGON_CLOSE_DISTANCE = 10; // Screen pixels from the first vertex that close a polygon
+const MIN_POLYGON_POINTS = 3;
+const KEYPOINT_RADIUS = 4; // Screen pixels
+
+interface PanStart {
+  clientX: number;
+  clientY: number;
+  viewport: Viewport;
+}
+
+interface Marquee {
+  start: Point;
+  end: Point;
+}
+
+interface PinchStart {
+  distance: number;
+  midX: number;
+  midY: number;
+  viewport: Viewport;
+}
 
 const ImageSelector: React.FC<ImageSelectorProps> = ({
-  onImageUpload,
+  onImagesUpload,
   onOpenFromDrive,
   imageSrc,
   fileName,
   selections,
   onSelectionsChange,
-  onReset,
+  selectedIds,
+  onSelectedIdsChange,
+  classes,
+  activeClassId,
+  onActiveClassChange,
+  keymap,
+  tool,
+  onToolChange,
+  skeleton,
+  onSkeletonChange,
+  snapToEdges,
+  onSnapToEdgesChange,
+  onRemoveImage,
   onImageDimensionsChange,
   onUndo,
   onRedo,
   canUndo,
   canRedo,
-  isSignedIn,
-  gapiReady,
-  isGoogleConfigured,
+  canOpenFromDrive,
+  proposals,
+  onAcceptProposal,
+  onRejectProposal,
+  predictionComparison,
+  isOverlayOpen,
 }) => {
   const [internalSelections, setInternalSelections] = useState<Selection[]>(selections);
   const [dragAction, setDragAction] = useState<DragAction>(null);
   const [dragStartPoint, setDragStartPoint] = useState<Point | null>(null);
-  const [activeSelectionId, setActiveSelectionId] = useState<string | null>(null);
   const [initialSelection, setInitialSelection] = useState<Selection | null>(null);
+  const [initialGroup, setInitialGroup] = useState<Selection[] | null>(null); // Boxes moved together
+  const [marquee, setMarquee] = useState<Marquee | null>(null);
+
+  // Handles and the class picker belong to a single selected box; several selected boxes are only highlighted
+  const activeSelectionId = selectedIds.length === 1 ? selectedIds[0] : null;
+  const setActiveSelectionId = (id: string | null) => onSelectedIdsChange(id ? [id] : []);
   
   const [loupeVisible, setLoupeVisible] = useState(false);
   const [loupePosition, setLoupePosition] = useState({ x: 0, y: 0 });
   const [loupeBgPosition, setLoupeBgPosition] = useState({ x: 0, y: 0 });
 
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [viewport, setViewport] = useState<Viewport>({ zoom: 1, panX: 0, panY: 0 });
+  const [isFitMode, setIsFitMode] = useState(true);
+  const [isSpaceDown, setIsSpaceDown] = useState(false);
+  const [panStart, setPanStart] = useState<PanStart | null>(null);
+  const pinchStartRef = useRef<PinchStart | null>(null);
+  const shiftKeyRef = useRef(false);
+
+  const [draftPoints, setDraftPoints] = useState<Point[]>([]);
+  const [draftHoverPoint, setDraftHoverPoint] = useState<Point | null>(null);
+  const [dragPointIndex, setDragPointIndex] = useState<number | null>(null); // Polygon vertex or keypoint being dragged
+  const [keypointTarget, setKeypointTarget] = useState<number | null>(null); // Keypoint placed by the next click
+
   const imageContainerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
+  const pixelsRef = useRef<{ src: string; pixels: ImageData } | null>(null);
   
   useEffect(() => {
     setInternalSelections(selections);
   }, [selections]);
 
+  // `webkitdirectory` is not part of React's input attribute types
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  });
+
+  // Switching to another image in the queue drops the selection; the view is refit once it loads
+  useEffect(() => {
+    setActiveSelectionId(null);
+    setNaturalSize(null);
+    setIsFitMode(true);
+    setDraftPoints([]);
+  }, [imageSrc]);
+
+  useEffect(() => {
+    if (tool !== 'polygon') setDraftPoints([]);
+  }, [tool]);
+
+  // Selecting a box in keypoint mode resumes with its first keypoint that has not been placed yet
+  useEffect(() => {
+    const active = internalSelections.find(sel => sel.id === activeSelectionId);
+    if (tool !== 'keypoint' || !active || active.locked) {
+      setKeypointTarget(null);
+      return;
+    }
+    const next = getTemplateKeypoints(active, skeleton).findIndex(k => k.visibility === 0);
+    setKeypointTarget(next === -1 ? null : next);
+  }, [activeSelectionId, tool, skeleton]);
+
+  useEffect(() => {
+    if (keypointTarget === null) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      setKeypointTarget(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keypointTarget]);
+
+  const getContainerPoint = (clientX: number, clientY: number): Point => {
+    const rect = imageContainerRef.current?.getBoundingClientRect();
+    return rect ? { x: clientX - rect.left, y: clientY - rect.top } : { x: 0, y: 0 };
+  };
+
+  const fitToScreen = () => {
+    const container = imageContainerRef.current;
+    if (!container || !naturalSize) return;
+    setViewport(fitViewport(container.clientWidth, container.clientHeight, naturalSize.width, naturalSize.height));
+    setIsFitMode(true);
+  };
+
+  const showActualSize = () => {
+    const container = imageContainerRef.current;
+    if (!container || !naturalSize) return;
+    setViewport(centerViewport(container.clientWidth, container.clientHeight, naturalSize.width, naturalSize.height, 1));
+    setIsFitMode(false);
+  };
+
+  const zoomByStep = (factor: number) => {
+    const container = imageContainerRef.current;
+    if (!container) return;
+    setViewport(prev => zoomAroundPoint(prev, prev.zoom * factor, container.clientWidth / 2, container.clientHeight / 2));
+    setIsFitMode(false);
+  };
+
+  // Keep the image fitted while the container changes size, until the user zooms or pans
+  useEffect(() => {
+    const container = imageContainerRef.current;
+    if (!container || !naturalSize || !isFitMode) return;
+    const observer = new ResizeObserver(() => fitToScreen());
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [naturalSize, isFitMode]);
+
+  // React registers wheel listeners as passive, so preventing page scroll needs a native listener
+  useEffect(() => {
+    const container = imageContainerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const factor = e.deltaY < 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP;
+      setViewport(prev => zoomAroundPoint(prev, prev.zoom * factor, e.clientX - rect.left, e.clientY - rect.top));
+      setIsFitMode(false);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [imageSrc]);
+
+  // Holding space turns the pointer into a pan tool
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || !imageSrc || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      setIsSpaceDown(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceDown(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [imageSrc]);
+
+  // Arrow keys nudge the selected boxes together; Shift takes bigger steps and Alt resizes a single box
+  // from its bottom-right corner. Every key press is committed so it can be undone on its own.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const directions: Record<string, [number, number]> = {
+        ArrowLeft: [-1, 0],
+        ArrowRight: [1, 0],
+        ArrowUp: [0, -1],
+        ArrowDown: [0, 1],
+      };
+      const direction = directions[e.key];
+      if (!direction || isOverlayOpen || selectedIds.length === 0 || !naturalSize || dragAction || isTypingTarget(e.target)) return;
+      const movable = internalSelections.filter(sel => selectedIds.includes(sel.id) && !sel.locked);
+      if (movable.length === 0 || (e.altKey && movable.length > 1)) return;
+      e.preventDefault();
+
+      const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+      const [dx, dy] = [direction[0] * step, direction[1] * step];
+
+      if (e.altKey) {
+        const [active] = movable;
+        // Polygons can only be moved from the keyboard; their shape is edited through the vertices
+        if (active.points) return;
+        const minX = Math.min(active.start.x, active.end.x);
+        const minY = Math.min(active.start.y, active.end.y);
+        const start = { x: minX, y: minY };
+        const end = {
+          x: Math.max(minX + MIN_BOX_SIZE, Math.min(Math.max(active.start.x, active.end.x) + dx, naturalSize.width)),
+          y: Math.max(minY + MIN_BOX_SIZE, Math.min(Math.max(active.start.y, active.end.y) + dy, naturalSize.height)),
+        };
+        onSelectionsChange(prev => prev.map(sel => sel.id === active.id ? { ...sel, start, end } : sel));
+        return;
+      }
+      const offset = clampOffset(getGroupBounds(movable), dx, dy, naturalSize.width, naturalSize.height);
+      const ids = movable.map(sel => sel.id);
+      onSelectionsChange(prev => prev.map(sel => ids.includes(sel.id) ? translateSelection(sel, offset.x, offset.y) : sel));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOverlayOpen, selectedIds, internalSelections, naturalSize, dragAction, onSelectionsChange]);
+
+  // Shortcuts that act on the boxes of this image; global ones (undo, image navigation) live in App
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!imageSrc || isOverlayOpen || dragAction || draftPoints.length > 0 || isTypingTarget(e.target)) return;
+      const action = matchShortcut(e, keymap);
+      if (!action) return;
+      const selected = internalSelections.filter(sel => selectedIds.includes(sel.id));
+      const classIndex = getClassShortcutIndex(action);
+
+      if (classIndex !== null) {
+        const cls = classes[classIndex];
+        if (!cls) return;
+        // Without an unlocked selected box the key picks the class for the next box
+        const ids = selected.filter(sel => !sel.locked).map(sel => sel.id);
+        if (ids.length > 0) onSelectionsChange(prev => prev.map(sel => ids.includes(sel.id) ? { ...sel, classId: cls.id } : sel));
+        else onActiveClassChange(cls.id);
+      } else if (action === 'nextSelection' || action === 'previousSelection') {
+        if (internalSelections.length === 0) return;
+        const index = internalSelections.findIndex(sel => sel.id === selectedIds[selectedIds.length - 1]);
+        const step = action === 'nextSelection' ? 1 : -1;
+        const nextIndex = index === -1
+          ? (step === 1 ? 0 : internalSelections.length - 1)
+          : (index + step + internalSelections.length) % internalSelections.length;
+        setActiveSelectionId(internalSelections[nextIndex].id);
+      } else if (action === 'deleteSelection') {
+        if (selected.length === 0) return;
+        onSelectionsChange(prev => prev.filter(sel => !selectedIds.includes(sel.id)));
+        setActiveSelectionId(null);
+      } else if (action === 'toggleLock') {
+        if (selected.length === 0) return;
+        // A mixed selection is locked first, so a second press unlocks all of it
+        const locked = selected.some(sel => !sel.locked);
+        onSelectionsChange(prev => prev.map(sel => selectedIds.includes(sel.id) ? { ...sel, locked } : sel));
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [imageSrc, isOverlayOpen, dragAction, draftPoints, keymap, internalSelections, selectedIds, classes, onSelectionsChange, onActiveClassChange]);
+
+  const isPanGesture = (e: React.MouseEvent | React.TouchEvent) => !('touches' in e) && (e.button === 1 || isSpaceDown);
+
+  const startPan = (e: React.MouseEvent) => {
+    e.preventDefault();
+    setPanStart({ clientX: e.clientX, clientY: e.clientY, viewport });
+    setIsFitMode(false);
+  };
+
+  const cancelDrag = () => {
+    setInternalSelections(selections);
+    setDragAction(null);
+    setDragStartPoint(null);
+    setInitialSelection(null);
+    setInitialGroup(null);
+    setMarquee(null);
+    setDragPointIndex(null);
+    setLoupeVisible(false);
+  };
+
+  // A second finger always means pinch/pan, even if the first one already started drawing
+  const handleTouchStartCapture = (e: React.TouchEvent) => {
+    if (e.touches.length !== 2) return;
+    const [a, b] = [e.touches[0], e.touches[1]];
+    const mid = getContainerPoint((a.clientX + b.clientX) / 2, (a.clientY + b.clientY) / 2);
+    pinchStartRef.current = {
+      distance: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY),
+      midX: mid.x,
+      midY: mid.y,
+      viewport,
+    };
+    if (dragAction) cancelDrag();
+    setIsFitMode(false);
+  };
+
   const getRelativeCoords = (e: { clientX: number, clientY: number }): Point => {
     if (!imageRef.current) return { x: 0, y: 0 };
     const rect = imageRef.current.getBoundingClientRect();
@@ -89,11 +405,7 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
     // Iterate in reverse to select the top-most element
     for (let i = internalSelections.length - 1; i >= 0; i--) {
       const selection = internalSelections[i];
-      const minX = Math.min(selection.start.x, selection.end.x);
-      const maxX = Math.max(selection.start.x, selection.end.x);
-      const minY = Math.min(selection.start.y, selection.end.y);
-      const maxY = Math.max(selection.start.y, selection.end.y);
-      if (point.x >= minX && point.x <= maxX && point.y >= minY && point.y <= maxY) {
+      if (isPointInSelection(point, selection)) {
         return selection;
       }
     }
@@ -108,6 +420,18 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
     const clampX = (x: number) => Math.max(0, Math.min(x, imageWidth));
     const clampY = (y: number) => Math.max(0, Math.min(y, imageHeight));
 
+    if (dragAction === 'marquee') {
+      setMarquee(prev => prev && { ...prev, end: currentPoint });
+      return;
+    }
+
+    if (dragAction === 'move' && initialGroup) {
+      const offset = clampOffset(getGroupBounds(initialGroup), currentPoint.x - dragStartPoint.x, currentPoint.y - dragStartPoint.y, imageWidth, imageHeight);
+      const moved = new Map(initialGroup.map(sel => [sel.id, translateSelection(sel, offset.x, offset.y)]));
+      setInternalSelections(prev => prev.map(sel => moved.get(sel.id) ?? sel));
+      return;
+    }
+
     setInternalSelections((prevSelections) => {
         let newSelections = [...prevSelections];
         const activeSelectionIndex = newSelections.findIndex(s => s.id === activeSelectionId);
@@ -125,7 +449,28 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
           const dx = currentPoint.x - dragStartPoint.x;
           const dy = currentPoint.y - dragStartPoint.y;
     
-          if (dragAction === 'move') {
+          if (dragAction === 'vertex') {
+            if (activeSelection.locked || !initialSelection.points || dragPointIndex === null) return prevSelections;
+            const points = initialSelection.points.map((p, i) =>
+              i === dragPointIndex ? { x: clampX(currentPoint.x), y: clampY(currentPoint.y) } : p
+            );
+            newSelections[activeSelectionIndex] = withPolygonPoints(initialSelection, points);
+          } else if (dragAction === 'keypoint') {
+            if (activeSelection.locked || dragPointIndex === null) return prevSelections;
+            const current = getTemplateKeypoints(initialSelection, skeleton)[dragPointIndex];
+            newSelections[activeSelectionIndex] = setKeypoint(initialSelection, skeleton, dragPointIndex, {
+              ...current,
+              x: clampX(currentPoint.x),
+              y: clampY(currentPoint.y),
+            });
+          } else if (dragAction === 'rotate') {
+            if (activeSelection.locked) return prevSelections;
+            const center = getSelectionCenter(initialSelection);
+            // The handle sits above the box, so pointing straight up means 0 degrees
+            let angle = Math.atan2(currentPoint.y - center.y, currentPoint.x - center.x) * 180 / Math.PI + 90;
+            if (shiftKeyRef.current) angle = Math.round(angle / ROTATION_SNAP) * ROTATION_SNAP;
+            newSelections[activeSelectionIndex] = { ...initialSelection, angle: normalizeAngle(angle) };
+          } else if (dragAction === 'move') {
             if (activeSelection.locked) return prevSelections;
             const { start: iStart, end: iEnd } = initialSelection;
             const width = Math.abs(iStart.x - iEnd.x);
@@ -141,47 +486,66 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
             const deltaX = minX - Math.min(iStart.x, iEnd.x);
             const deltaY = minY - Math.min(iStart.y, iEnd.y);
             
-            const newSelection = {
-                ...initialSelection,
-                start: { x: iStart.x + deltaX, y: iStart.y + deltaY },
-                end: { x: iEnd.x + deltaX, y: iEnd.y + deltaY },
-            };
-            newSelections[activeSelectionIndex] = newSelection;
+            newSelections[activeSelectionIndex] = translateSelection(initialSelection, deltaX, deltaY);
           } else { // Resizing
               if (activeSelection.locked) return prevSelections;
 
               const { start: iStart, end: iEnd } = initialSelection; // These are normalized
               let newStart = { ...iStart };
               let newEnd = { ...iEnd };
-              const MIN_SIZE = 1;
 
-              if (dragAction === 'n-resize') {
-                  newStart.y = clampY(iStart.y + dy);
-                  if (newStart.y > newEnd.y - MIN_SIZE) {
-                      newStart.y = newEnd.y - MIN_SIZE;
+              // Rotated boxes are resized in their own frame, where the image edges don't line up
+              // with the box edges, so the pointer delta is rotated back and the corners are checked instead.
+              const angle = initialSelection.angle ?? 0;
+              const localDelta = angle ? rotatePoint({ x: dx, y: dy }, { x: 0, y: 0 }, -angle) : { x: dx, y: dy };
+              const limitX = angle ? (x: number) => x : clampX;
+              const limitY = angle ? (y: number) => y : clampY;
+
+              // Corner handles move two edges at once, e.g. 'ne' moves the north and east edges
+              const edges = dragAction.split('-')[0];
+
+              if (edges.includes('n')) {
+                  newStart.y = limitY(iStart.y + localDelta.y);
+                  if (newStart.y > newEnd.y - MIN_BOX_SIZE) {
+                      newStart.y = newEnd.y - MIN_BOX_SIZE;
                   }
-              } else if (dragAction === 's-resize') {
-                  newEnd.y = clampY(iEnd.y + dy);
-                  if (newEnd.y < newStart.y + MIN_SIZE) {
-                      newEnd.y = newStart.y + MIN_SIZE;
+              } else if (edges.includes('s')) {
+                  newEnd.y = limitY(iEnd.y + localDelta.y);
+                  if (newEnd.y < newStart.y + MIN_BOX_SIZE) {
+                      newEnd.y = newStart.y + MIN_BOX_SIZE;
                   }
-              } else if (dragAction === 'w-resize') {
-                  newStart.x = clampX(iStart.x + dx);
-                  if (newStart.x > newEnd.x - MIN_SIZE) {
-                      newStart.x = newEnd.x - MIN_SIZE;
+              }
+              if (edges.includes('w')) {
+                  newStart.x = limitX(iStart.x + localDelta.x);
+                  if (newStart.x > newEnd.x - MIN_BOX_SIZE) {
+                      newStart.x = newEnd.x - MIN_BOX_SIZE;
                   }
-              } else if (dragAction === 'e-resize') {
-                  newEnd.x = clampX(iEnd.x + dx);
-                  if (newEnd.x < newStart.x + MIN_SIZE) {
-                      newEnd.x = newStart.x + MIN_SIZE;
+              } else if (edges.includes('e')) {
+                  newEnd.x = limitX(iEnd.x + localDelta.x);
+                  if (newEnd.x < newStart.x + MIN_BOX_SIZE) {
+                      newEnd.x = newStart.x + MIN_BOX_SIZE;
                   }
               }
+
+              if (angle) {
+                  // Keep the opposite edge fixed on screen by moving the center along the rotated axes
+                  const localCenter = { x: (newStart.x + newEnd.x) / 2, y: (newStart.y + newEnd.y) / 2 };
+                  const center = rotatePoint(localCenter, getSelectionCenter(initialSelection), angle);
+                  const halfWidth = (newEnd.x - newStart.x) / 2;
+                  const halfHeight = (newEnd.y - newStart.y) / 2;
+                  newStart = { x: center.x - halfWidth, y: center.y - halfHeight };
+                  newEnd = { x: center.x + halfWidth, y: center.y + halfHeight };
+              }
     
               const newSelection = {
                   ...initialSelection,
                   start: newStart,
                   end: newEnd,
               };
+              // A rotated box stops growing once a corner would leave the image
+              const fitsImage = (selection: Selection) => getSelectionCorners(selection)
+                .every(({ x, y }) => x >= 0 && y >= 0 && x <= imageWidth && y <= imageHeight);
+              if (angle && !fitsImage(newSelection) && fitsImage(initialSelection)) return prevSelections;
               newSelections[activeSelectionIndex] = newSelection;
           }
         } 
@@ -191,6 +555,11 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
 
   const handlePointerDown = (e: React.MouseEvent | React.TouchEvent) => {
     if (!imageSrc || !imageRef.current) return;
+
+    if (isPanGesture(e)) {
+      startPan(e as React.MouseEvent);
+      return;
+    }
     
     const isTouchEvent = 'touches' in e;
     if (isTouchEvent && (e as React.TouchEvent).touches.length > 1) {
@@ -208,17 +577,37 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
     }
 
     const point = getRelativeCoords(eventClient);
+
+    if (tool === 'polygon') {
+      addDraftPoint(point);
+      return;
+    }
+
+    if (isPlacingKeypoint) {
+      placeKeypoint(point, !isTouchEvent && (e as React.MouseEvent).shiftKey);
+      return;
+    }
+
     const clickedSelection = findSelectionAtPoint(point);
 
     if (clickedSelection) {
       return; // Handled by selection-specific handlers
     }
-    
+
+    // Shift-dragging over empty image adds the boxes inside the rectangle to the selection
+    if (!isTouchEvent && (e as React.MouseEvent).shiftKey) {
+      setDragAction('marquee');
+      setDragStartPoint(point);
+      setMarquee({ start: point, end: point });
+      return;
+    }
+
     const newSelection: Selection = {
       id: Date.now().toString(),
       start: point,
       end: point,
       locked: false,
+      classId: activeClassId ?? undefined,
     };
 
     setInternalSelections([...internalSelections, newSelection]);
@@ -229,16 +618,154 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
     setLoupeVisible(true);
   };
 
-  const handleSelectionMouseDown = (e: React.MouseEvent, selection: Selection) => {
+  // --- Keypoints ---
+  const activeSelection = internalSelections.find(sel => sel.id === activeSelectionId);
+  const isPlacingKeypoint = tool === 'keypoint' && keypointTarget !== null && !!activeSelection && !activeSelection.locked;
+
+  // Shift-click places the keypoint as occluded; afterwards the next unplaced keypoint becomes the target
+  const placeKeypoint = (point: Point, occluded: boolean) => {
+    if (!activeSelection || keypointTarget === null) return;
+    const updated = setKeypoint(activeSelection, skeleton, keypointTarget, { ...point, visibility: occluded ? 1 : 2 });
+    onSelectionsChange(prev => prev.map(sel => sel.id === updated.id ? updated : sel));
+    const keypoints = getTemplateKeypoints(updated, skeleton);
+    const offset = keypoints.slice(keypointTarget + 1).concat(keypoints.slice(0, keypointTarget + 1)).findIndex(k => k.visibility === 0);
+    setKeypointTarget(offset === -1 ? null : (keypointTarget + 1 + offset) % keypoints.length);
+  };
+
+  const handleKeypointDown = (e: React.MouseEvent | React.TouchEvent, selection: Selection, index: number) => {
+    if (isPanGesture(e) || ('touches' in e && e.touches.length > 1)) return;
     e.stopPropagation();
     if (selection.locked) return;
+    // Alt/Ctrl-click removes the keypoint and makes it the next one to place
+    if (!('touches' in e) && (e.altKey || e.ctrlKey || e.metaKey)) {
+      onSelectionsChange(prev => prev.map(sel => sel.id === selection.id ? setKeypoint(sel, skeleton, index, { x: 0, y: 0, visibility: 0 }) : sel));
+      setKeypointTarget(index);
+      return;
+    }
+    const eventClient = 'touches' in e ? e.touches[0] : e;
+    if (!eventClient) return;
+    setDragAction('keypoint');
+    setDragPointIndex(index);
+    setDragStartPoint(getRelativeCoords(eventClient));
+    setInitialSelection(selection);
+    setLoupeVisible(true);
+  };
+
+  // --- Polygon drawing ---
+  const finishPolygon = (points: Point[]) => {
+    // Double-clicking adds the same point twice; drop vertices that land on their predecessor
+    const cleaned = points.filter((p, i) => i === 0 || Math.hypot(p.x - points[i - 1].x, p.y - points[i - 1].y) * viewport.zoom > 2);
+    setDraftPoints([]);
+    setDraftHoverPoint(null);
+    if (cleaned.length < MIN_POLYGON_POINTS) return;
+    const polygon = withPolygonPoints({
+      id: Date.now().toString(),
+      start: cleaned[0],
+      end: cleaned[0],
+      locked: false,
+      classId: activeClassId ?? undefined,
+    }, cleaned);
+    onSelectionsChange(prev => [...prev, polygon]);
+    setActiveSelectionId(polygon.id);
+  };
+
+  const addDraftPoint = (point: Point) => {
+    const first = draftPoints[0];
+    if (draftPoints.length >= MIN_POLYGON_POINTS && Math.hypot(point.x - first.x, point.y - first.y) * viewport.zoom <= POLYGON_CLOSE_DISTANCE) {
+      finishPolygon(draftPoints);
+      return;
+    }
+    if (draftPoints.length === 0) setActiveSelectionId(null);
+    setDraftPoints([...draftPoints, point]);
+  };
+
+  // Enter closes the polygon, Escape discards it and Backspace removes the last vertex
+  useEffect(() => {
+    if (draftPoints.length === 0) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      if (e.key === 'Enter') {
+        finishPolygon(draftPoints);
+      } else if (e.key === 'Escape') {
+        setDraftPoints([]);
+        setDraftHoverPoint(null);
+      } else if (e.key === 'Backspace') {
+        setDraftPoints(draftPoints.slice(0, -1));
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [draftPoints, viewport.zoom]);
+
+  const startVertexDrag = (e: React.MouseEvent | React.TouchEvent, selection: Selection, index: number) => {
+    const eventClient = 'touches' in e ? e.touches[0] : e;
+    if (!eventClient) return;
     setActiveSelectionId(selection.id);
+    setDragAction('vertex');
+    setDragPointIndex(index);
+    setDragStartPoint(getRelativeCoords(eventClient));
+    setInitialSelection(selection);
+    setLoupeVisible(true);
+  };
+
+  const handleVertexDown = (e: React.MouseEvent | React.TouchEvent, selection: Selection, index: number) => {
+    if (isPanGesture(e) || ('touches' in e && e.touches.length > 1)) return;
+    e.stopPropagation();
+    if (selection.locked || !selection.points) return;
+    // Alt/Ctrl-click deletes a vertex, as long as a valid polygon remains
+    if (!('touches' in e) && (e.altKey || e.ctrlKey || e.metaKey)) {
+      if (selection.points.length > MIN_POLYGON_POINTS) {
+        const points = selection.points.filter((_, i) => i !== index);
+        onSelectionsChange(prev => prev.map(sel => sel.id === selection.id ? withPolygonPoints(sel, points) : sel));
+      }
+      return;
+    }
+    startVertexDrag(e, selection, index);
+  };
+
+  // Pressing an edge midpoint inserts a vertex there and immediately starts dragging it
+  const handleMidpointDown = (e: React.MouseEvent | React.TouchEvent, selection: Selection, index: number) => {
+    if (isPanGesture(e) || ('touches' in e && e.touches.length > 1)) return;
+    e.stopPropagation();
+    if (selection.locked || !selection.points) return;
+    const a = selection.points[index];
+    const b = selection.points[(index + 1) % selection.points.length];
+    const points = [...selection.points];
+    points.splice(index + 1, 0, { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+    const updated = withPolygonPoints(selection, points);
+    setInternalSelections(prev => prev.map(sel => sel.id === selection.id ? updated : sel));
+    startVertexDrag(e, updated, index + 1);
+  };
+
+  const handleSelectionMouseDown = (e: React.MouseEvent, selection: Selection) => {
+    if (isPanGesture(e)) return; // Let the container start panning
+    if (draftPoints.length > 0) return; // Clicks keep adding vertices to the polygon being drawn
+    if (isPlacingKeypoint) return; // Keypoints may sit on top of any box
+    e.stopPropagation();
+    // Shift-click toggles the box in the selection; locked boxes too, so they can be unlocked in bulk
+    if (e.shiftKey) {
+      onSelectedIdsChange(selectedIds.includes(selection.id)
+        ? selectedIds.filter(id => id !== selection.id)
+        : [...selectedIds, selection.id]);
+      return;
+    }
+    if (selection.locked) return;
     setDragAction('move');
     setDragStartPoint(getRelativeCoords(e));
     setInitialSelection(selection);
+    // Dragging one of several selected boxes moves all of them; locked ones stay put
+    if (selectedIds.length > 1 && selectedIds.includes(selection.id)) {
+      setInitialGroup(internalSelections.filter(sel => selectedIds.includes(sel.id) && !sel.locked));
+    } else {
+      setActiveSelectionId(selection.id);
+    }
   };
 
   const handleSelectionTouchStart = (e: React.TouchEvent, selection: Selection) => {
+    if (draftPoints.length > 0 || isPlacingKeypoint) return;
     e.stopPropagation();
     if (selection.locked || e.touches.length > 1) return;
     if (!e.touches[0]) return;
@@ -249,6 +776,7 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
   };
 
   const handleResizeHandleDown = (e: React.MouseEvent | React.TouchEvent, action: DragAction, selection: Selection) => {
+    if (isPanGesture(e)) return;
     e.stopPropagation();
 
     const isTouchEvent = 'touches' in e;
@@ -276,27 +804,76 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
         },
     };
     setInitialSelection(normalizedSelection);
-    setLoupeVisible(true);
+    setLoupeVisible(action !== 'rotate');
   };
   
-  const handleDragEnd = () => {
-      if (dragAction) {
+  // Pixels of the shown image, read once per image for edge snapping
+  const getImagePixels = (): ImageData | null => {
+    if (!imageSrc || !imageRef.current || !naturalSize) return null;
+    if (pixelsRef.current?.src !== imageSrc) pixelsRef.current = { src: imageSrc, pixels: readImagePixels(imageRef.current) };
+    return pixelsRef.current.pixels;
+  };
+
+  // Tightens the selected boxes, or every box when none is selected, in one undoable step
+  const tightenBoxes = () => {
+    const pixels = getImagePixels();
+    if (!pixels) return;
+    const targets = selectedIds.length > 0 ? selections.filter(sel => selectedIds.includes(sel.id)) : selections;
+    const tightened = new Map<string, Selection>();
+    targets.forEach(sel => {
+      const result = tightenSelection(pixels, sel);
+      if (result) tightened.set(sel.id, result);
+    });
+    if (tightened.size > 0) onSelectionsChange(prev => prev.map(sel => tightened.get(sel.id) ?? sel));
+  };
+
+  const handleDragEnd = (e: MouseEvent | TouchEvent) => {
+      if (panStart) setPanStart(null);
+      if ('touches' in e && e.touches.length < 2) pinchStartRef.current = null;
+      if (dragAction === 'marquee') {
+        if (marquee) {
+          const left = Math.min(marquee.start.x, marquee.end.x);
+          const top = Math.min(marquee.start.y, marquee.end.y);
+          const right = Math.max(marquee.start.x, marquee.end.x);
+          const bottom = Math.max(marquee.start.y, marquee.end.y);
+          const enclosed = internalSelections
+            .filter(sel => {
+              const rect = getBoundingRect(sel);
+              return rect.x >= left && rect.y >= top && rect.x + rect.width <= right && rect.y + rect.height <= bottom;
+            })
+            .map(sel => sel.id)
+            .filter(id => !selectedIds.includes(id));
+          onSelectedIdsChange([...selectedIds, ...enclosed]);
+        }
+        setDragAction(null);
+        setDragStartPoint(null);
+        setMarquee(null);
+      } else if (dragAction) {
         const finalSelections = internalSelections.filter(s => {
           const width = Math.abs(s.start.x - s.end.x);
           const height = Math.abs(s.start.y - s.end.y);
-          return width > 1 && height > 1;
+          return width >= MIN_BOX_SIZE && height >= MIN_BOX_SIZE;
         });
         onSelectionsChange(finalSelections);
 
+        // Snapping is committed as its own step, so undo brings back the box as drawn
+        const isSized = dragAction === 'draw' || dragAction.endsWith('-resize');
+        const drawn = finalSelections.find(sel => sel.id === activeSelectionId);
+        const pixels = snapToEdges && isSized && drawn ? getImagePixels() : null;
+        const snapped = pixels && tightenSelection(pixels, drawn!);
+        if (snapped) onSelectionsChange(prev => prev.map(sel => sel.id === snapped.id ? snapped : sel));
+
         setDragAction(null);
         setDragStartPoint(null);
         setInitialSelection(null);
+        setInitialGroup(null);
+        setDragPointIndex(null);
         setLoupeVisible(false);
       }
   };
 
   const updateLoupePosition = (clientPoint: { clientX: number, clientY: number }, relativePoint: Point) => {
-    if (!loupeVisible || !imageRef.current || !dragAction || dragAction === 'move') return;
+    if (!loupeVisible || !imageRef.current || !dragAction || dragAction === 'move' || dragAction === 'rotate') return;
 
     let yOffset = LOUPE_SIZE + 20;
     if ('ontouchstart' in window) {
@@ -317,7 +894,14 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
   }
 
   const handleMouseMove = (e: MouseEvent) => {
+    if (panStart) {
+      const { clientX, clientY, viewport: start } = panStart;
+      setViewport({ ...start, panX: start.panX + e.clientX - clientX, panY: start.panY + e.clientY - clientY });
+      return;
+    }
+    shiftKeyRef.current = e.shiftKey;
     const relativePoint = getRelativeCoords(e);
+    if (draftPoints.length > 0) setDraftHoverPoint(relativePoint);
     updateLoupePosition(e, relativePoint);
     if (dragAction) {
       performDrag(relativePoint);
@@ -325,6 +909,17 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
   };
 
   const handleTouchMove = (e: TouchEvent) => {
+    const pinch = pinchStartRef.current;
+    if (pinch && e.touches.length === 2) {
+      if (e.cancelable) e.preventDefault();
+      const [a, b] = [e.touches[0], e.touches[1]];
+      const mid = getContainerPoint((a.clientX + b.clientX) / 2, (a.clientY + b.clientY) / 2);
+      const distance = Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+      // Zoom around the initial midpoint, then follow the fingers' movement
+      const zoomed = zoomAroundPoint(pinch.viewport, pinch.viewport.zoom * distance / pinch.distance, pinch.midX, pinch.midY);
+      setViewport({ ...zoomed, panX: zoomed.panX + mid.x - pinch.midX, panY: zoomed.panY + mid.y - pinch.midY });
+      return;
+    }
     if (dragAction && e.touches.length === 1 && e.touches[0]) {
         const touch = e.touches[0];
         const relativePoint = getRelativeCoords(touch);
@@ -347,7 +942,7 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
         window.removeEventListener('touchmove', handleTouchMove, options);
         window.removeEventListener('touchend', handleDragEnd);
     };
-  }, [dragAction, internalSelections]);
+  }, [dragAction, internalSelections, panStart, draftPoints, marquee, selectedIds]);
 
 
   useEffect(() => {
@@ -358,9 +953,9 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
   }, [imageSrc, onSelectionsChange]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      onImageUpload(file);
+    const files = Array.from(e.target.files ?? []).filter(file => isImageFile(file) || isLabelFile(file) || isJsonFile(file));
+    if (files.length > 0) {
+      onImagesUpload(files);
     }
     e.target.value = '';
   };
@@ -368,9 +963,9 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
-    const file = e.dataTransfer.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-      onImageUpload(file);
+    const files = Array.from(e.dataTransfer.files ?? []).filter(file => isImageFile(file) || isLabelFile(file) || isJsonFile(file));
+    if (files.length > 0) {
+      onImagesUpload(files);
     }
   };
 
@@ -385,8 +980,17 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
         naturalWidth: img.naturalWidth,
         naturalHeight: img.naturalHeight,
     });
+    setNaturalSize({ width: img.naturalWidth, height: img.naturalHeight });
+    const container = imageContainerRef.current;
+    if (container) {
+      setViewport(fitViewport(container.clientWidth, container.clientHeight, img.naturalWidth, img.naturalHeight));
+    }
   };
   
+  const handleActiveClassPick = (selectionId: string, classId: string) => {
+    onSelectionsChange(prev => prev.map(sel => sel.id === selectionId ? { ...sel, classId } : sel));
+  };
+
   const onClearAll = () => {
     onSelectionsChange([]);
     setActiveSelectionId(null);
@@ -402,8 +1006,12 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
       { position: 'top-1/2 right-0 -translate-y-1/2 translate-x-1/2', cursor: 'cursor-ew-resize', action: 'e-resize' },
       { position: 'bottom-0 left-1/2 -translate-x-1/2 translate-y-1/2', cursor: 'cursor-ns-resize', action: 's-resize' },
       { position: 'top-1/2 left-0 -translate-y-1/2 -translate-x-1/2', cursor: 'cursor-ew-resize', action: 'w-resize' },
+      { position: 'top-0 left-0 -translate-x-1/2 -translate-y-1/2', cursor: 'cursor-nwse-resize', action: 'nw-resize' },
+      { position: 'top-0 right-0 translate-x-1/2 -translate-y-1/2', cursor: 'cursor-nesw-resize', action: 'ne-resize' },
+      { position: 'bottom-0 right-0 translate-x-1/2 translate-y-1/2', cursor: 'cursor-nwse-resize', action: 'se-resize' },
+      { position: 'bottom-0 left-0 -translate-x-1/2 translate-y-1/2', cursor: 'cursor-nesw-resize', action: 'sw-resize' },
     ];
-    return resizeHandles.map(({position, cursor, action}) => (
+    const handles = resizeHandles.map(({position, cursor, action}) => (
         <div 
           key={action} 
           className={`${touchAreaClasses} ${position} ${cursor}`}
@@ -414,11 +1022,263 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
           <div className={handleClasses}></div>
         </div>
     ));
+    if (tool !== 'obb') return handles;
+    return [
+      ...handles,
+      <div
+        key="rotate-stem"
+        className="absolute left-1/2 w-px bg-white pointer-events-none"
+        style={{ top: -ROTATE_HANDLE_OFFSET, height: ROTATE_HANDLE_OFFSET }}
+      />,
+      <div
+        key="rotate"
+        className={`${touchAreaClasses} left-1/2 -translate-x-1/2 -translate-y-1/2 cursor-grab`}
+        style={{ top: -ROTATE_HANDLE_OFFSET }}
+        onMouseDown={(e) => handleResizeHandleDown(e, 'rotate', selection)}
+        onTouchStart={(e) => handleResizeHandleDown(e, 'rotate', selection)}
+        data-handle="true"
+        title="Rotate (hold Shift to snap)"
+      >
+        <div className={`${handleClasses} bg-cyan-300`}></div>
+      </div>,
+    ];
+  };
+
+  // Vertex handles are positioned inside the polygon's bounding-box wrapper
+  const renderVertexHandles = (selection: Selection) => {
+    if (selection.locked || !selection.points) return null;
+    const points = selection.points;
+    const minX = Math.min(selection.start.x, selection.end.x);
+    const minY = Math.min(selection.start.y, selection.end.y);
+    const toLocal = (p: Point) => ({ left: (p.x - minX) * viewport.zoom, top: (p.y - minY) * viewport.zoom });
+    const touchAreaClasses = "absolute w-6 h-6 -translate-x-1/2 -translate-y-1/2 flex items-center justify-center pointer-events-auto";
+
+    return [
+      ...points.map((p, i) => {
+        const next = points[(i + 1) % points.length];
+        return (
+          <div
+            key={`mid-${i}`}
+            className={`${touchAreaClasses} cursor-copy`}
+            style={toLocal({ x: (p.x + next.x) / 2, y: (p.y + next.y) / 2 })}
+            onMouseDown={(e) => handleMidpointDown(e, selection, i)}
+            onTouchStart={(e) => handleMidpointDown(e, selection, i)}
+            data-handle="true"
+            title="Drag to add a vertex"
+          >
+            <div className="bg-white/60 border border-gray-800 rounded-full w-2 h-2"></div>
+          </div>
+        );
+      }),
+      ...points.map((p, i) => (
+        <div
+          key={`vertex-${i}`}
+          className={`${touchAreaClasses} cursor-pointer`}
+          style={toLocal(p)}
+          onMouseDown={(e) => handleVertexDown(e, selection, i)}
+          onTouchStart={(e) => handleVertexDown(e, selection, i)}
+          data-handle="true"
+          title="Drag to move (Alt-click to delete)"
+        >
+          <div className="bg-white border border-gray-800 rounded-full w-3 h-3"></div>
+        </div>
+      )),
+    ];
+  };
+
+  const renderShapeLayer = () => {
+    if (!naturalSize) return null;
+    const toScreen = (points: Point[]) => points.map(p => `${p.x * viewport.zoom},${p.y * viewport.zoom}`).join(' ');
+    const draftPath = draftHoverPoint ? [...draftPoints, draftHoverPoint] : draftPoints;
+
+    return (
+      <svg
+        className="absolute top-0 left-0 pointer-events-none overflow-visible"
+        width={naturalSize.width * viewport.zoom}
+        height={naturalSize.height * viewport.zoom}
+      >
+        {internalSelections.filter(selection => selection.points).map(selection => {
+          const color = getClassById(classes, selection.classId)?.color ?? UNASSIGNED_COLOR;
+          const isSelected = selectedIds.includes(selection.id);
+          return (
+            <polygon
+              key={selection.id}
+              points={toScreen(selection.points!)}
+              fill={color}
+              fillOpacity={isSelected ? 0.2 : 0.1}
+              stroke={color}
+              strokeWidth={2}
+              strokeDasharray={selection.locked ? '2 3' : isSelected ? undefined : '6 4'}
+              className={selection.locked ? 'cursor-default' : 'cursor-move'}
+              style={{ pointerEvents: draftPoints.length > 0 ? 'none' : 'auto' }}
+              onMouseDown={(e) => handleSelectionMouseDown(e, selection)}
+              onTouchStart={(e) => handleSelectionTouchStart(e, selection)}
+              aria-label={`Selection polygon ${selection.id}`}
+            />
+          );
+        })}
+        {draftPoints.length > 0 && (
+          <>
+            <polyline points={toScreen(draftPath)} fill="none" stroke="#22d3ee" strokeWidth={2} strokeDasharray="4 3" />
+            {draftPoints.map((p, i) => (
+              <circle
+                key={i}
+                cx={p.x * viewport.zoom}
+                cy={p.y * viewport.zoom}
+                r={i === 0 && draftPoints.length >= MIN_POLYGON_POINTS ? 6 : 4}
+                fill={i === 0 ? '#22d3ee' : '#ffffff'}
+                stroke="#1f2937"
+              />
+            ))}
+          </>
+        )}
+      </svg>
+    );
+  };
+
+  // Model suggestions are hatched and dashed so they never pass for real boxes; only their
+  // accept/reject label takes pointer events, so drawing over them still works.
+  const renderProposals = () => {
+    if (!naturalSize) return null;
+    return proposals.map(({ selection, score, label }) => {
+      const color = getClassById(classes, selection.classId)?.color ?? UNASSIGNED_COLOR;
+      const { start, end } = selection;
+      return (
+        <div
+          key={selection.id}
+          className="absolute border-2 border-dashed pointer-events-none"
+          style={{
+            left: Math.min(start.x, end.x) * viewport.zoom,
+            top: Math.min(start.y, end.y) * viewport.zoom,
+            width: Math.abs(start.x - end.x) * viewport.zoom,
+            height: Math.abs(start.y - end.y) * viewport.zoom,
+            borderColor: color,
+            backgroundImage: `repeating-linear-gradient(45deg, ${color}33 0 4px, transparent 4px 10px)`,
+          }}
+          aria-label={`Proposed ${label}`}
+        >
+          <div
+            className="absolute left-0 top-full mt-0.5 flex items-center space-x-1 text-xs font-semibold rounded-sm px-1 bg-gray-900/90 whitespace-nowrap pointer-events-auto"
+            onMouseDown={(e) => e.stopPropagation()}
+            onTouchStart={(e) => e.stopPropagation()}
+            data-handle="true"
+          >
+            <span style={{ color }}>{label} {Math.round(score * 100)}%</span>
+            <button onClick={() => onAcceptProposal(selection.id)} title="Accept" className="text-green-400 hover:text-green-300">
+              <CheckIcon className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => onRejectProposal(selection.id)} title="Reject" className="text-red-400 hover:text-red-300">
+              <CloseIcon className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      );
+    });
+  };
+
+  // Predictions are outlined in their own colors, without fill, and never take pointer events.
+  // Annotations no prediction matched get a ring just outside their envelope.
+  const renderPredictions = () => {
+    if (!naturalSize || !predictionComparison) return null;
+    const zoom = viewport.zoom;
+    return (
+      <>
+        {predictionComparison.matches.map(({ prediction, matchedId }) => {
+          const rect = getPredictionRect(prediction);
+          const color = matchedId ? PREDICTION_COLORS.match : PREDICTION_COLORS.falsePositive;
+          const name = classes[prediction.classIndex]?.name ?? `class ${prediction.classIndex}`;
+          return (
+            <div
+              key={prediction.id}
+              className={`absolute border-2 pointer-events-none ${matchedId ? '' : 'border-dashed'}`}
+              style={{ left: rect.x * zoom, top: rect.y * zoom, width: rect.width * zoom, height: rect.height * zoom, borderColor: color }}
+              aria-label={`Prediction ${name}`}
+            >
+              <div className="absolute right-0 top-full mt-0.5 text-xs font-semibold rounded-sm px-1 bg-gray-900/90 whitespace-nowrap" style={{ color }}>
+                {matchedId ? '' : 'FP '}{name} {Math.round(prediction.score * 100)}%
+              </div>
+            </div>
+          );
+        })}
+        {internalSelections.filter(selection => predictionComparison.missedIds.includes(selection.id)).map(selection => {
+          const rect = getBoundingRect(selection);
+          return (
+            <div
+              key={`missed-${selection.id}`}
+              className="absolute border-2 rounded-sm pointer-events-none"
+              style={{ left: rect.x * zoom - 4, top: rect.y * zoom - 4, width: rect.width * zoom + 8, height: rect.height * zoom + 8, borderColor: PREDICTION_COLORS.missed }}
+            >
+              <div className="absolute right-0 bottom-full mb-0.5 text-xs font-semibold rounded-sm px-1 text-gray-900" style={{ backgroundColor: PREDICTION_COLORS.missed }}>FN</div>
+            </div>
+          );
+        })}
+      </>
+    );
+  };
+
+  // Drawn above the boxes so the active box's keypoints stay draggable inside it
+  const renderKeypointLayer = () => {
+    if (!naturalSize) return null;
+    const posed = internalSelections.filter(selection => selection.keypoints?.some(k => k.visibility > 0));
+    if (posed.length === 0) return null;
+
+    return (
+      <svg
+        className="absolute top-0 left-0 pointer-events-none overflow-visible"
+        width={naturalSize.width * viewport.zoom}
+        height={naturalSize.height * viewport.zoom}
+      >
+        {posed.map(selection => {
+          const color = getClassById(classes, selection.classId)?.color ?? UNASSIGNED_COLOR;
+          const keypoints = getTemplateKeypoints(selection, skeleton);
+          const isEditable = selection.id === activeSelectionId && !selection.locked && !dragAction;
+          return (
+            <g key={selection.id}>
+              {skeleton.skeleton.map(([a, b]) => {
+                const [from, to] = [keypoints[a], keypoints[b]];
+                if (!from.visibility || !to.visibility) return null;
+                return (
+                  <line
+                    key={`${a}-${b}`}
+                    x1={from.x * viewport.zoom}
+                    y1={from.y * viewport.zoom}
+                    x2={to.x * viewport.zoom}
+                    y2={to.y * viewport.zoom}
+                    stroke={color}
+                    strokeWidth={2}
+                    strokeOpacity={0.8}
+                  />
+                );
+              })}
+              {keypoints.map((keypoint, i) => keypoint.visibility > 0 && (
+                // Occluded keypoints are drawn hollow
+                <circle
+                  key={i}
+                  cx={keypoint.x * viewport.zoom}
+                  cy={keypoint.y * viewport.zoom}
+                  r={isEditable ? KEYPOINT_RADIUS + 1 : KEYPOINT_RADIUS}
+                  fill={keypoint.visibility === 2 ? color : '#1f2937'}
+                  stroke={keypoint.visibility === 2 ? '#1f2937' : color}
+                  strokeWidth={2}
+                  className={isEditable ? 'cursor-pointer' : undefined}
+                  style={{ pointerEvents: isEditable ? 'auto' : 'none' }}
+                  onMouseDown={isEditable ? (e) => handleKeypointDown(e, selection, i) : undefined}
+                  onTouchStart={isEditable ? (e) => handleKeypointDown(e, selection, i) : undefined}
+                  data-handle={isEditable ? 'true' : undefined}
+                >
+                  <title>{skeleton.keypoints[i]}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+    );
   };
 
   return (
     <div className="space-y-4 flex flex-col flex-grow">
-       {loupeVisible && imageSrc && imageRef.current && dragAction !== 'move' && (
+       {loupeVisible && imageSrc && imageRef.current && dragAction !== 'move' && dragAction !== 'rotate' && (
         <div
           className="fixed pointer-events-none rounded-full border-2 border-cyan-400 shadow-lg bg-no-repeat z-50"
           style={{
@@ -443,7 +1303,14 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
         type="file"
         ref={fileInputRef}
         onChange={handleFileChange}
-        accept="image/*"
+        accept="image/*,.txt,.json"
+        multiple
+        className="hidden"
+      />
+      <input
+        type="file"
+        ref={folderInputRef}
+        onChange={handleFileChange}
         className="hidden"
       />
       {!imageSrc ? (
@@ -456,18 +1323,27 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
           <div className="text-center mb-4">
             <UploadIcon className="w-12 h-12 mb-2 mx-auto" />
             <p className="font-semibold">Upload from Computer</p>
-            <p className="text-sm">Drag & drop or click below</p>
+            <p className="text-sm">Drag & drop one or more images, or click below</p>
+          </div>
+          <div className="flex space-x-2">
+            <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors"
+              >
+                Select Files
+            </button>
+            <button
+                onClick={() => folderInputRef.current?.click()}
+                className="flex items-center px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors"
+              >
+                <FolderIcon className="w-5 h-5 mr-2" />
+                Select Folder
+            </button>
           </div>
-          <button
-              onClick={() => fileInputRef.current?.click()}
-              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors"
-            >
-              Select File
-          </button>
           <div className="my-4 text-xs font-bold text-gray-500">OR</div>
           <button
               onClick={onOpenFromDrive}
-              disabled={!isSignedIn || !gapiReady || !isGoogleConfigured}
+              disabled={!canOpenFromDrive}
               className="flex items-center justify-center px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <GoogleDriveIcon className="w-5 h-5 mr-2" />
@@ -476,35 +1352,113 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
         </div>
       ) : (
         <div className="space-y-2 flex flex-col flex-grow">
-          <div className="flex items-center justify-end bg-gray-800/50 p-2 rounded-md flex-wrap gap-2">
+          <div className="flex items-center justify-between bg-gray-800/50 p-2 rounded-md flex-wrap gap-2">
+                <div className="flex items-center space-x-1">
+                    <div className="flex rounded-md overflow-hidden border border-gray-600 mr-2" role="group" aria-label="Annotation tool">
+                        {([['box', 'Box'], ['obb', 'Rotated'], ['polygon', 'Polygon'], ['keypoint', 'Keypoints']] as [AnnotationTool, string][]).map(([value, label]) => (
+                            <button
+                                key={value}
+                                onClick={() => onToolChange(value)}
+                                className={`px-2 py-1 text-sm transition-colors ${tool === value ? 'bg-cyan-600 text-white' : 'hover:bg-gray-700'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    <button onClick={() => zoomByStep(1 / BUTTON_ZOOM_STEP)} title="Zoom out" className="p-1.5 rounded-md hover:bg-gray-700 transition-colors"><ZoomOutIcon className="w-5 h-5"/></button>
+                    <span className="text-sm text-gray-300 w-12 text-center tabular-nums">{Math.round(viewport.zoom * 100)}%</span>
+                    <button onClick={() => zoomByStep(BUTTON_ZOOM_STEP)} title="Zoom in" className="p-1.5 rounded-md hover:bg-gray-700 transition-colors"><ZoomInIcon className="w-5 h-5"/></button>
+                    <button onClick={fitToScreen} title="Fit to screen" className="p-1.5 rounded-md hover:bg-gray-700 transition-colors"><MaximizeIcon className="w-5 h-5"/></button>
+                    <button onClick={showActualSize} title="Actual size (1:1)" className="px-1.5 py-1 text-sm font-semibold rounded-md hover:bg-gray-700 transition-colors">1:1</button>
+                </div>
                 <div className="flex items-center space-x-2">
-                    <button onClick={onUndo} title="Undo" className="p-1.5 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" disabled={!canUndo}><UndoIcon className="w-5 h-5"/></button>
-                    <button onClick={onRedo} title="Redo" className="p-1.5 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" disabled={!canRedo}><RedoIcon className="w-5 h-5"/></button>
+                    <button onClick={onUndo} title={`Undo (${formatBinding(keymap.undo)})`} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" disabled={!canUndo}><UndoIcon className="w-5 h-5"/></button>
+                    <button onClick={onRedo} title={`Redo (${formatBinding(keymap.redo)})`} className="p-1.5 rounded-md hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" disabled={!canRedo}><RedoIcon className="w-5 h-5"/></button>
+                    <button
+                        onClick={() => onSnapToEdgesChange(!snapToEdges)}
+                        title={snapToEdges ? 'Snap to edges: on (drawn and resized boxes are tightened)' : 'Snap to edges: off'}
+                        aria-pressed={snapToEdges}
+                        className={`p-1.5 rounded-md transition-colors ${snapToEdges ? 'bg-cyan-600 text-white' : 'hover:bg-gray-700'}`}
+                    >
+                        <MagnetIcon className="w-5 h-5"/>
+                    </button>
+                    {selections.length > 0 && (
+                        <button
+                            onClick={tightenBoxes}
+                            title={selectedIds.length > 0 ? 'Tighten the selected boxes to the edges in the image' : 'Tighten all boxes to the edges in the image'}
+                            className="text-sm p-1.5 rounded-md hover:bg-gray-700 transition-colors"
+                        >
+                            {selectedIds.length > 0 ? 'Tighten' : 'Tighten All'}
+                        </button>
+                    )}
                     {selections.length > 0 && (
                         <button onClick={onClearAll} title="Clear All Selections" className="flex items-center text-sm p-1.5 rounded-md text-red-400 hover:bg-red-900/50 transition-colors"><TrashIcon className="w-5 h-5 mr-1"/> Clear All</button>
                     )}
                 </div>
           </div>
+          {tool === 'keypoint' && (
+            <div className="flex items-center bg-gray-800/50 p-2 rounded-md flex-wrap gap-3 text-sm text-gray-300">
+                <label className="flex items-center space-x-2">
+                    <span>Skeleton</span>
+                    <select
+                        value={skeleton.id}
+                        onChange={(e) => onSkeletonChange(e.target.value)}
+                        className="bg-gray-900 border border-gray-600 rounded px-2 py-0.5"
+                    >
+                        {SKELETON_TEMPLATES.map(template => (
+                            <option key={template.id} value={template.id}>{template.name}</option>
+                        ))}
+                    </select>
+                </label>
+                {activeSelection && !activeSelection.locked ? (
+                    <label className="flex items-center space-x-2">
+                        <span>Place</span>
+                        <select
+                            value={keypointTarget ?? ''}
+                            onChange={(e) => setKeypointTarget(e.target.value === '' ? null : Number(e.target.value))}
+                            className="bg-gray-900 border border-gray-600 rounded px-2 py-0.5"
+                        >
+                            <option value="">— (select / move boxes)</option>
+                            {getTemplateKeypoints(activeSelection, skeleton).map((keypoint, i) => (
+                                <option key={i} value={i}>{keypoint.visibility ? '✓ ' : ''}{skeleton.keypoints[i]}</option>
+                            ))}
+                        </select>
+                    </label>
+                ) : (
+                    <span className="text-gray-500">Draw or select a box to place its keypoints</span>
+                )}
+                <span className="text-xs text-gray-500">Shift-click: occluded · Alt-click a point: remove · Esc: stop placing</span>
+            </div>
+          )}
           <div
             ref={imageContainerRef}
-            className="relative select-none rounded-lg border-2 border-gray-700 flex-grow bg-gray-900/50 cursor-crosshair touch-none flex justify-center items-center"
+            className={`relative select-none rounded-lg border-2 border-gray-700 flex-grow bg-gray-900/50 touch-none overflow-hidden h-[70vh] ${panStart ? 'cursor-grabbing' : isSpaceDown ? 'cursor-grab' : 'cursor-crosshair'}`}
             onMouseDown={handlePointerDown}
             onTouchStart={handlePointerDown}
+            onTouchStartCapture={handleTouchStartCapture}
+            onDoubleClick={() => draftPoints.length > 0 && finishPolygon(draftPoints)}
+            onAuxClick={(e) => e.preventDefault()}
           >
-            <div className="relative pointer-events-none">
+            <div
+              className="absolute top-0 left-0 pointer-events-none"
+              style={{ transform: `translate(${viewport.panX}px, ${viewport.panY}px)` }}
+            >
                 <img 
                     ref={imageRef}
                     src={imageSrc} 
                     alt="Upload" 
-                    className="block pointer-events-auto max-w-full max-h-full"
+                    className="block pointer-events-auto max-w-none"
+                    style={naturalSize
+                      ? { width: naturalSize.width * viewport.zoom, height: naturalSize.height * viewport.zoom }
+                      : { visibility: 'hidden' }}
                     onLoad={handleImageLoad}
+                    draggable={false}
                 />
-                {imageRef.current && internalSelections.map((selection) => {
-                  const { naturalWidth, naturalHeight } = imageRef.current;
-                  const { clientWidth, clientHeight } = imageRef.current;
-
-                  const scaleX = clientWidth / naturalWidth;
-                  const scaleY = clientHeight / naturalHeight;
+                {renderShapeLayer()}
+                {naturalSize && internalSelections.map((selection) => {
+                  // Boxes are stored in natural image pixels; the image is drawn at exactly `zoom` scale.
+                  const scaleX = viewport.zoom;
+                  const scaleY = viewport.zoom;
 
                   const { start, end } = selection;
                   const left = Math.min(start.x, end.x) * scaleX;
@@ -512,36 +1466,91 @@ const ImageSelector: React.FC<ImageSelectorProps> = ({
                   const width = Math.abs(start.x - end.x) * scaleX;
                   const height = Math.abs(start.y - end.y) * scaleY;
                   const isActive = selection.id === activeSelectionId;
+                  const isSelected = selectedIds.includes(selection.id);
+                  // Polygons are drawn in the SVG layer; their wrapper only carries the label and vertex handles
+                  const isPolygon = !!selection.points;
                   
                   if (width === 0 && height === 0 && dragAction !== 'draw') return null;
                   
+                  const selectionClass = getClassById(classes, selection.classId);
+                  const color = selectionClass?.color ?? UNASSIGNED_COLOR;
+
+                  // Class colors are arbitrary hex values, so they are applied inline;
+                  // the lock and selected states are still expressed through the border style.
                   const borderStyle = selection.locked
-                    ? 'border-red-500 bg-red-500/10'
-                    : isActive
-                    ? 'border-cyan-400 bg-cyan-400/20'
-                    : 'border-dashed border-yellow-400 bg-yellow-400/10';
+                    ? 'border-dotted'
+                    : isSelected
+                    ? 'border-solid'
+                    : 'border-dashed';
 
                   const cursorStyle = selection.locked ? 'cursor-default' : 'cursor-move';
 
                   return (
                     <div
                       key={selection.id}
-                      className={`absolute border-2 ${borderStyle} ${cursorStyle} pointer-events-auto`}
-                      style={{ left, top, width, height }}
+                      className={isPolygon ? 'absolute pointer-events-none' : `absolute border-2 ${borderStyle} ${cursorStyle} pointer-events-auto`}
+                      style={isPolygon ? { left, top, width, height } : {
+                        left,
+                        top,
+                        width,
+                        height,
+                        borderColor: color,
+                        backgroundColor: `${color}${isSelected ? '33' : '1a'}`,
+                        transform: selection.angle ? `rotate(${selection.angle}deg)` : undefined,
+                      }}
                       onMouseDown={(e) => handleSelectionMouseDown(e, selection)}
                       onTouchStart={(e) => handleSelectionTouchStart(e, selection)}
                       aria-label={`Selection box ${selection.id}`}
                     >
-                      {isActive && renderHandles(selection)}
+                      {width > 0 && height > 0 && (
+                        <div
+                          className="absolute left-0 bottom-full mb-0.5 text-xs font-semibold text-gray-900 rounded-sm px-1 whitespace-nowrap pointer-events-auto"
+                          style={{ backgroundColor: color }}
+                          onMouseDown={(e) => isActive && e.stopPropagation()}
+                          onTouchStart={(e) => isActive && e.stopPropagation()}
+                          data-handle={isActive ? 'true' : undefined}
+                        >
+                          {isActive && !dragAction ? (
+                            <select
+                              value={selectionClass ? selectionClass.id : ''}
+                              onChange={(e) => handleActiveClassPick(selection.id, e.target.value)}
+                              className="bg-transparent text-xs font-semibold outline-none cursor-pointer"
+                              aria-label="Box class"
+                            >
+                              <option value="" disabled>Unassigned</option>
+                              {classes.map((cls) => (
+                                <option key={cls.id} value={cls.id}>{cls.name}</option>
+                              ))}
+                            </select>
+                          ) : (
+                            selectionClass?.name ?? 'Unassigned'
+                          )}
+                        </div>
+                      )}
+                      {isActive && (isPolygon ? renderVertexHandles(selection) : renderHandles(selection))}
                     </div>
                   );
                 })}
+                {renderPredictions()}
+                {renderProposals()}
+                {renderKeypointLayer()}
+                {marquee && (
+                  <div
+                    className="absolute border border-dashed border-cyan-300 bg-cyan-300/10 pointer-events-none"
+                    style={{
+                      left: Math.min(marquee.start.x, marquee.end.x) * viewport.zoom,
+                      top: Math.min(marquee.start.y, marquee.end.y) * viewport.zoom,
+                      width: Math.abs(marquee.start.x - marquee.end.x) * viewport.zoom,
+                      height: Math.abs(marquee.start.y - marquee.end.y) * viewport.zoom,
+                    }}
+                  />
+                )}
             </div>
           </div>
           <div className="flex items-center justify-between bg-gray-700/50 p-2 rounded-md">
             <p className="text-sm text-gray-300 truncate pr-4">{fileName}</p>
             <button
-              onClick={onReset}
+              onClick={onRemoveImage}
               className="text-sm text-red-400 hover:text-red-300 font-semibold flex-shrink-0"
             >
               Remove Image
@@ -0,0 +1,43 @@
+import React from 'react';
+import type { ImportReport } from '../utils/labelImport';
+import { CloseIcon } from './Icons';
+
+interface ImportReportPanelProps {
+  reports: ImportReport[];
+  onDismiss: () => void;
+}
+
+const ImportReportPanel: React.FC<ImportReportPanelProps> = ({ reports, onDismiss }) => {
+  const errorCount = reports.reduce((sum, report) => sum + report.errors.length, 0);
+
+  return (
+    <div className="bg-yellow-900/30 rounded-lg p-4 border border-yellow-700 text-sm" role="alert">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-semibold text-yellow-300">
+          {errorCount} label import {errorCount === 1 ? 'issue' : 'issues'}
+        </h3>
+        <button onClick={onDismiss} title="Dismiss">
+          <CloseIcon className="w-4 h-4 text-yellow-300 hover:text-white" />
+        </button>
+      </div>
+      <ul className="space-y-2 max-h-40 overflow-y-auto">
+        {reports.map(report => (
+          <li key={report.fileName}>
+            <p className="font-semibold text-gray-200">{report.fileName}</p>
+            <ul className="ml-4 text-gray-300">
+              {report.errors.map((error, i) => (
+                <li key={i}>
+                  {error.line > 0 && <span className="text-gray-400">Line {error.line}: </span>}
+                  {error.message}
+                  {error.text && <code className="ml-2 text-yellow-200">{error.text}</code>}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ImportReportPanel;
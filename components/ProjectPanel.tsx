@@ -0,0 +1,72 @@
+import React, { useRef, useState } from 'react';
+import { FolderIcon, DownloadIcon, UploadIcon, GoogleDriveIcon } from './Icons';
+
+interface ProjectPanelProps {
+  hasImages: boolean;
+  canOpenFromDrive: boolean;
+  onSaveProject: (includeImages: boolean) => Promise<void>;
+  onOpenProject: (files: File[]) => void;
+  onOpenProjectFromDrive: () => void;
+}
+
+const ProjectPanel: React.FC<ProjectPanelProps> = ({ hasImages, canOpenFromDrive, onSaveProject, onOpenProject, onOpenProjectFromDrive }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [includeImages, setIncludeImages] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveProject(includeImages);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // The project file may be picked together with the images a JSON-only project refers to
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) onOpenProject(files);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-6 border border-gray-700">
+      <h2 className="text-xl font-semibold mb-4 flex items-center">
+        <FolderIcon className="w-6 h-6 mr-2 text-cyan-400" />
+        Project
+      </h2>
+      <label className="flex items-center space-x-2 mb-3 text-sm text-gray-400 cursor-pointer">
+        <input type="checkbox" checked={includeImages} onChange={(e) => setIncludeImages(e.target.checked)} />
+        <span>Include images (saves a .zip instead of project.json)</span>
+      </label>
+      <div className="flex space-x-2">
+        <button
+          onClick={handleSave}
+          disabled={!hasImages || isSaving}
+          className="flex items-center justify-center w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <DownloadIcon className="w-5 h-5 mr-2" /> {isSaving ? 'Saving...' : 'Save Project'}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          title="Open a project.json (with its images) or a project zip"
+          className="flex items-center justify-center w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors"
+        >
+          <UploadIcon className="w-5 h-5 mr-2" /> Open Project
+        </button>
+        <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json,.zip,application/json,application/zip,image/*" multiple className="hidden" />
+      </div>
+      {canOpenFromDrive && (
+        <button
+          onClick={onOpenProjectFromDrive}
+          className="flex items-center justify-center w-full mt-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors"
+        >
+          <GoogleDriveIcon className="w-5 h-5 mr-2" /> Open Project from Drive
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ProjectPanel;
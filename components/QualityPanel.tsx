@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import type { ImageItem } from '../types';
+import { AlertTriangleIcon } from './Icons';
+import { ExportPolicy, QUALITY_CHECKS, QualityCheck, QualityIssue, QualitySettings } from '../utils/quality';
+
+interface QualityPanelProps {
+  images: ImageItem[];
+  currentImageId: string | null;
+  issues: QualityIssue[];
+  settings: QualitySettings;
+  onSettingsChange: (settings: QualitySettings) => void;
+  onSelectIssue: (issue: QualityIssue) => void;
+}
+
+const inputClasses = 'mt-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-gray-100';
+
+const QualityPanel: React.FC<QualityPanelProps> = ({ images, currentImageId, issues, settings, onSettingsChange, onSelectIssue }) => {
+  const [currentOnly, setCurrentOnly] = useState(false);
+
+  const update = (changes: Partial<QualitySettings>) => onSettingsChange({ ...settings, ...changes });
+  const toggleCheck = (check: QualityCheck) => update({ checks: { ...settings.checks, [check]: !settings.checks[check] } });
+  const setNumber = (key: 'duplicateIoU' | 'minSize' | 'maxAspectRatio' | 'borderMargin', value: number) => {
+    if (Number.isFinite(value) && value >= 0) update({ [key]: value });
+  };
+
+  const fileNames = new Map(images.map(image => [image.id, image.fileName]));
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const shown = currentOnly ? issues.filter(issue => issue.imageId === currentImageId) : issues;
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-6 border border-gray-700">
+      <h2 className="text-xl font-semibold mb-4 flex items-center">
+        <AlertTriangleIcon className="w-6 h-6 mr-2 text-cyan-400" />
+        Quality Checks
+      </h2>
+
+      <div className="flex items-center justify-between text-sm mb-3">
+        <span className={issues.length === 0 ? 'text-green-400' : 'text-gray-300'}>
+          {issues.length === 0
+            ? 'No issues found'
+            : `${errorCount} error${errorCount === 1 ? '' : 's'}, ${issues.length - errorCount} warning${issues.length - errorCount === 1 ? '' : 's'}`}
+        </span>
+        <label className="flex items-center space-x-2 text-xs text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={currentOnly} onChange={(e) => setCurrentOnly(e.target.checked)} />
+          <span>This image only</span>
+        </label>
+      </div>
+
+      {shown.length > 0 && (
+        <ul className="space-y-1 max-h-56 overflow-y-auto pr-1 mb-3 text-sm">
+          {shown.map(issue => (
+            <li key={issue.id}>
+              <button
+                onClick={() => onSelectIssue(issue)}
+                title={issue.selectionId ? 'Select this box' : 'Show this image'}
+                className="flex items-start w-full text-left px-2 py-1 rounded hover:bg-gray-700/60"
+              >
+                <span className={`mt-1.5 mr-2 w-2 h-2 rounded-full flex-shrink-0 ${issue.severity === 'error' ? 'bg-red-500' : 'bg-yellow-400'}`} />
+                <span className="min-w-0">
+                  <span className="block text-gray-200">{issue.message}</span>
+                  <span className="block text-xs text-gray-500 truncate">{fileNames.get(issue.imageId)}</span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <details className="text-sm text-gray-300">
+        <summary className="cursor-pointer text-gray-400">Checks and export policy</summary>
+        <div className="mt-2 space-y-1">
+          {(Object.keys(QUALITY_CHECKS) as QualityCheck[]).map(check => (
+            <label key={check} className="flex items-center space-x-2 cursor-pointer">
+              <input type="checkbox" checked={settings.checks[check]} onChange={() => toggleCheck(check)} />
+              <span>{QUALITY_CHECKS[check].label}</span>
+              <span className={`text-xs ${QUALITY_CHECKS[check].severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>{QUALITY_CHECKS[check].severity}</span>
+            </label>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-2 mt-3">
+          <label className="flex flex-col text-gray-400">
+            Duplicate IoU
+            <input type="number" min={0.1} max={1} step={0.05} value={settings.duplicateIoU} onChange={(e) => setNumber('duplicateIoU', Number(e.target.value))} className={inputClasses} />
+          </label>
+          <label className="flex flex-col text-gray-400">
+            Min size (px)
+            <input type="number" min={0} value={settings.minSize} onChange={(e) => setNumber('minSize', Number(e.target.value))} className={inputClasses} />
+          </label>
+          <label className="flex flex-col text-gray-400">
+            Max aspect ratio
+            <input type="number" min={1} step={0.5} value={settings.maxAspectRatio} onChange={(e) => setNumber('maxAspectRatio', Number(e.target.value))} className={inputClasses} />
+          </label>
+          <label className="flex flex-col text-gray-400">
+            Border margin (px)
+            <input type="number" min={0} value={settings.borderMargin} onChange={(e) => setNumber('borderMargin', Number(e.target.value))} className={inputClasses} />
+          </label>
+          <label className="flex flex-col col-span-2 text-gray-400">
+            When exporting images with errors
+            <select value={settings.exportPolicy} onChange={(e) => update({ exportPolicy: e.target.value as ExportPolicy })} className={inputClasses}>
+              <option value="ignore">Export anyway</option>
+              <option value="warn">Ask before exporting</option>
+              <option value="block">Block the export</option>
+            </select>
+          </label>
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default QualityPanel;
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import type { AnnotationClass, ImageItem, ImageStatus } from '../types';
+import { MessageSquareIcon, TrashIcon } from './Icons';
+import { getClassById } from '../utils/classes';
+import { getCurrentSelections } from '../utils/images';
+import { IMAGE_STATUSES, IMAGE_STATUS_ORDER, getOpenComments, getPinnedSelectionId } from '../utils/review';
+
+interface ReviewPanelProps {
+  image: ImageItem;
+  classes: AnnotationClass[];
+  selectedIds: string[];
+  reviewerName: string;
+  onReviewerNameChange: (name: string) => void;
+  onStatusChange: (status: ImageStatus) => void;
+  onAssigneeChange: (assignee: string | null) => void;
+  onAddComment: (text: string, selectionId: string | null) => void;
+  onToggleResolved: (commentId: string) => void;
+  onDeleteComment: (commentId: string) => void;
+  onSelectBox: (selectionId: string) => void;
+}
+
+const inputClasses = 'mt-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-gray-100';
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({
+  image,
+  classes,
+  selectedIds,
+  reviewerName,
+  onReviewerNameChange,
+  onStatusChange,
+  onAssigneeChange,
+  onAddComment,
+  onToggleResolved,
+  onDeleteComment,
+  onSelectBox,
+}) => {
+  const [text, setText] = useState('');
+  const [pinnedId, setPinnedId] = useState('');
+
+  // New comments are pinned to the selected box by default
+  useEffect(() => {
+    setPinnedId(selectedIds.length === 1 ? selectedIds[0] : '');
+  }, [selectedIds, image.id]);
+
+  const selections = getCurrentSelections(image);
+  const describeBox = (selectionId: string) => {
+    const index = selections.findIndex(selection => selection.id === selectionId);
+    if (index === -1) return null;
+    const cls = getClassById(classes, selections[index].classId);
+    return `Box ${index + 1}${cls ? ` · ${cls.name}` : ''}`;
+  };
+  const openCount = getOpenComments(image).length;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onAddComment(text.trim(), pinnedId || null);
+    setText('');
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-6 border border-gray-700">
+      <h2 className="text-xl font-semibold mb-4 flex items-center">
+        <MessageSquareIcon className="w-6 h-6 mr-2 text-cyan-400" />
+        Review
+      </h2>
+
+      <div className="flex flex-wrap gap-1 mb-3" role="group" aria-label="Image status">
+        {IMAGE_STATUS_ORDER.map(status => (
+          <button
+            key={status}
+            onClick={() => onStatusChange(status)}
+            className={`flex items-center px-2 py-1 rounded-md text-xs transition-colors ${image.status === status ? 'bg-gray-600 text-white' : 'bg-gray-900/60 text-gray-400 hover:bg-gray-700'}`}
+          >
+            <span className="w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: IMAGE_STATUSES[status].color }} />
+            {IMAGE_STATUSES[status].label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        <label className="flex flex-col text-xs text-gray-400">
+          Assignee
+          <input
+            type="text"
+            value={image.assignee ?? ''}
+            onChange={(e) => onAssigneeChange(e.target.value || null)}
+            placeholder="Unassigned"
+            className={inputClasses}
+          />
+        </label>
+        <label className="flex flex-col text-xs text-gray-400">
+          Your name
+          <input
+            type="text"
+            value={reviewerName}
+            onChange={(e) => onReviewerNameChange(e.target.value)}
+            placeholder="Shown on your comments"
+            className={inputClasses}
+          />
+        </label>
+        {reviewerName && image.assignee !== reviewerName && (
+          <button onClick={() => onAssigneeChange(reviewerName)} className="col-span-2 text-left text-xs text-cyan-400 hover:underline">
+            Assign to me
+          </button>
+        )}
+      </div>
+
+      <h3 className="text-sm font-semibold text-gray-300 mb-2">
+        Comments{openCount > 0 && <span className="ml-1 text-orange-400 font-normal">({openCount} open)</span>}
+      </h3>
+      {image.comments.length > 0 ? (
+        <ul className="space-y-2 max-h-64 overflow-y-auto pr-1 mb-3 text-sm">
+          {image.comments.map(comment => {
+            const pinnedSelectionId = getPinnedSelectionId(comment, selections);
+            return (
+              <li key={comment.id} className={`p-2 rounded-md bg-gray-900/50 ${comment.resolved ? 'opacity-60' : ''}`}>
+                <div className="flex items-center justify-between text-xs text-gray-400">
+                  <span className="truncate">
+                    <span className="font-semibold text-gray-300">{comment.author || 'Anonymous'}</span>
+                    {' · '}{new Date(comment.createdAt).toLocaleString()}
+                  </span>
+                  <span className="flex items-center space-x-2 flex-shrink-0 ml-2">
+                    <button onClick={() => onToggleResolved(comment.id)} className="text-cyan-400 hover:underline">
+                      {comment.resolved ? 'Reopen' : 'Resolve'}
+                    </button>
+                    <button onClick={() => onDeleteComment(comment.id)} title="Delete comment">
+                      <TrashIcon className="w-3.5 h-3.5 hover:text-red-400" />
+                    </button>
+                  </span>
+                </div>
+                {pinnedSelectionId && (
+                  <button onClick={() => onSelectBox(pinnedSelectionId)} className="text-xs text-cyan-400 hover:underline">{describeBox(pinnedSelectionId)}</button>
+                )}
+                <p className="text-gray-200 whitespace-pre-wrap break-words">{comment.text}</p>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 mb-3">No comments on this image.</p>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={2}
+          placeholder="Add a comment"
+          className="w-full bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-gray-100"
+        />
+        <div className="flex items-center space-x-2">
+          <select
+            value={pinnedId}
+            onChange={(e) => setPinnedId(e.target.value)}
+            className="flex-grow bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm"
+            aria-label="Pin comment to"
+          >
+            <option value="">Whole image</option>
+            {selections.map(selection => (
+              <option key={selection.id} value={selection.id}>{describeBox(selection.id)}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!text.trim()}
+            className="px-3 py-1 bg-cyan-600 hover:bg-cyan-500 text-white text-sm font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Comment
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ReviewPanel;
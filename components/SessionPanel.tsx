@@ -0,0 +1,68 @@
+import React from 'react';
+import { HistoryIcon, TrashIcon } from './Icons';
+import { SessionSummary, StorageUsage, formatBytes } from '../utils/sessionStore';
+
+interface SessionPanelProps {
+  sessions: SessionSummary[];
+  currentSessionId: string;
+  storageUsage: StorageUsage | null;
+  onOpenSession: (id: string) => void;
+  onDeleteSession: (id: string) => void;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+const SessionPanel: React.FC<SessionPanelProps> = ({ sessions, currentSessionId, storageUsage, onOpenSession, onDeleteSession }) => {
+  const usagePercent = storageUsage && storageUsage.quota > 0 ? Math.min(100, (storageUsage.usage / storageUsage.quota) * 100) : 0;
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-6 border border-gray-700">
+      <h2 className="text-xl font-semibold mb-4 flex items-center">
+        <HistoryIcon className="w-6 h-6 mr-2 text-cyan-400" />
+        Sessions
+      </h2>
+      {sessions.length > 0 ? (
+        <ul className="space-y-2 max-h-48 overflow-y-auto mb-4">
+          {sessions.map(session => {
+            const isCurrent = session.id === currentSessionId;
+            return (
+              <li key={session.id} className={`flex items-center justify-between p-2 rounded-md ${isCurrent ? 'bg-cyan-900/30 border border-cyan-700' : 'bg-gray-700/30'}`}>
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-gray-200 truncate">{session.name}</p>
+                  <p className="text-xs text-gray-400">
+                    {session.imageCount} image{session.imageCount === 1 ? '' : 's'} · {session.boxCount} box{session.boxCount === 1 ? '' : 'es'} · {formatDate(session.updatedAt)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 flex-shrink-0 ml-2">
+                  {/* The open session would be saved again on the next edit, so it cannot be deleted */}
+                  {isCurrent ? (
+                    <span className="text-xs text-cyan-400">Current</span>
+                  ) : (
+                    <>
+                      <button onClick={() => onOpenSession(session.id)} className="text-sm text-cyan-400 hover:underline">Open</button>
+                      <button onClick={() => onDeleteSession(session.id)} title="Delete session">
+                        <TrashIcon className="w-4 h-4 text-gray-400 hover:text-red-400" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">Your work is saved in this browser as you annotate.</p>
+      )}
+      {storageUsage && (
+        <div className="text-xs text-gray-400">
+          <div className="h-2 bg-gray-700 rounded-full overflow-hidden mb-1">
+            <div className={`h-full ${usagePercent > 80 ? 'bg-red-500' : 'bg-cyan-500'}`} style={{ width: `${usagePercent}%` }} />
+          </div>
+          {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} browser storage used
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionPanel;
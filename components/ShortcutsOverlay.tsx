@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { CloseIcon, KeyboardIcon } from './Icons';
+import {
+  Keymap,
+  ShortcutAction,
+  DEFAULT_KEYMAP,
+  FIXED_SHORTCUTS,
+  SHORTCUT_ACTIONS,
+  SHORTCUT_LABELS,
+  formatBinding,
+  getEventBinding,
+} from '../utils/keymap';
+
+interface ShortcutsOverlayProps {
+  keymap: Keymap;
+  onKeymapChange: (keymap: Keymap) => void;
+  onClose: () => void;
+}
+
+const kbdClasses = 'px-2 py-0.5 rounded bg-gray-900 border border-gray-600 font-mono text-xs text-gray-200';
+
+const ShortcutsOverlay: React.FC<ShortcutsOverlayProps> = ({ keymap, onKeymapChange, onClose }) => {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  // While recording, the next key press becomes the binding; a binding already used elsewhere
+  // is taken over and the other action becomes unassigned. Escape cancels, Escape again closes.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!recording) {
+        if (e.key === 'Escape') onClose();
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      const binding = getEventBinding(e);
+      if (!binding) return;
+      const next = { ...keymap };
+      SHORTCUT_ACTIONS.forEach(action => {
+        if (next[action] === binding) next[action] = '';
+      });
+      next[recording] = binding;
+      onKeymapChange(next);
+      setRecording(null);
+    };
+    // Capture phase, so the key being recorded does not also trigger its current action
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, keymap, onKeymapChange, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-lg border border-gray-700 p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center">
+            <KeyboardIcon className="w-6 h-6 mr-2 text-cyan-400" />
+            Keyboard Shortcuts
+          </h2>
+          <button onClick={onClose} title="Close">
+            <CloseIcon className="w-5 h-5 text-gray-400 hover:text-white" />
+          </button>
+        </div>
+        <p className="text-xs text-gray-400 mb-3">Click a shortcut to change it, then press the new key combination.</p>
+        <ul className="space-y-1 text-sm">
+          {SHORTCUT_ACTIONS.map(action => (
+            <li key={action} className="flex items-center justify-between">
+              <span className="text-gray-300">{SHORTCUT_LABELS[action]}</span>
+              <button
+                onClick={() => setRecording(recording === action ? null : action)}
+                className={`${kbdClasses} ${recording === action ? 'border-cyan-400 text-cyan-300' : 'hover:border-gray-400'} ${keymap[action] ? '' : 'text-gray-500'}`}
+              >
+                {recording === action ? 'Press keys…' : formatBinding(keymap[action])}
+              </button>
+            </li>
+          ))}
+        </ul>
+        <h3 className="font-semibold mt-4 mb-2 text-sm text-gray-400">Canvas</h3>
+        <ul className="space-y-1 text-sm">
+          {FIXED_SHORTCUTS.map(([keys, label]) => (
+            <li key={keys} className="flex items-center justify-between">
+              <span className="text-gray-300">{label}</span>
+              <span className={kbdClasses}>{keys}</span>
+            </li>
+          ))}
+        </ul>
+        <button
+          onClick={() => onKeymapChange(DEFAULT_KEYMAP)}
+          className="mt-4 text-sm text-cyan-400 hover:underline"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsOverlay;
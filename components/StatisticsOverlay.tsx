@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AnnotationClass, ImageItem } from '../types';
+import { BarChartIcon, CloseIcon, DownloadIcon } from './Icons';
+import { getClassById, UNASSIGNED_COLOR } from '../utils/classes';
+import { downloadBlob } from '../utils/download';
+import { BoxStats, CountEntry, HistogramBin, buildCenterHeatmap, buildHistogram, computeDatasetStats, formatStatsCsv } from '../utils/statistics';
+
+interface StatisticsOverlayProps {
+  images: ImageItem[];
+  classes: AnnotationClass[];
+  onClose: () => void;
+}
+
+type Unit = 'px' | 'normalized';
+type Measure = 'width' | 'height' | 'area';
+
+const NORMALIZED_KEYS: Record<Measure, 'normWidth' | 'normHeight' | 'normArea'> = { width: 'normWidth', height: 'normHeight', area: 'normArea' };
+const getMeasure = (box: BoxStats, key: Measure, unit: Unit) => unit === 'px' ? box[key] : box[NORMALIZED_KEYS[key]]!;
+// Normalized measures only exist for boxes on images of known size
+const getMeasuredBoxes = (boxes: BoxStats[], unit: Unit) => unit === 'px' ? boxes : boxes.filter(box => box.normWidth !== null);
+const buildDistributions = (boxes: BoxStats[], unit: Unit): Record<Measure, HistogramBin[]> => {
+  const measured = getMeasuredBoxes(boxes, unit);
+  return {
+    width: buildHistogram(measured.map(box => getMeasure(box, 'width', unit))),
+    height: buildHistogram(measured.map(box => getMeasure(box, 'height', unit))),
+    area: buildHistogram(measured.map(box => getMeasure(box, 'area', unit))),
+  };
+};
+
+const HEATMAP_SIZE = 16;
+const SCATTER_SIZE = 240;
+const SCATTER_MAX_POINTS = 5000; // Beyond this the scatter shows an even sample
+
+const formatValue = (value: number, unit: Unit) => unit === 'px' ? String(Math.round(value)) : value.toFixed(value < 0.01 ? 4 : 2);
+
+const sectionClasses = 'bg-gray-900/40 rounded-md p-4';
+
+const BarList: React.FC<{ entries: CountEntry[] }> = ({ entries }) => {
+  const max = Math.max(1, ...entries.map(entry => entry.count));
+  return (
+    <ul className="space-y-1 text-sm">
+      {/* Classes may share a name, so entries are keyed by position */}
+      {entries.map((entry, i) => (
+        <li key={i} className="flex items-center">
+          <span className="w-28 truncate text-gray-300 mr-2">{entry.label}</span>
+          <div className="flex-grow h-3 bg-gray-700/50 rounded">
+            <div className="h-3 rounded" style={{ width: `${(entry.count / max) * 100}%`, backgroundColor: entry.color ?? '#22d3ee' }} />
+          </div>
+          <span className="w-12 text-right tabular-nums text-gray-400">{entry.count}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const HistogramChart: React.FC<{ bins: HistogramBin[]; format: (value: number) => string }> = ({ bins, format }) => {
+  if (bins.length === 0) return <p className="text-sm text-gray-500">No boxes</p>;
+  const max = Math.max(1, ...bins.map(bin => bin.count));
+  const label = (bin: HistogramBin) => bin.from === bin.to ? format(bin.from) : `${format(bin.from)}–${format(bin.to)}`;
+  return (
+    <div>
+      <div className="flex items-end h-24 gap-px">
+        {bins.map((bin, i) => (
+          <div
+            key={i}
+            className="flex-1 bg-cyan-500/80 hover:bg-cyan-400 rounded-t-sm"
+            style={{ height: `${(bin.count / max) * 100}%`, minHeight: bin.count > 0 ? 2 : 0 }}
+            title={`${label(bin)}: ${bin.count}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mt-1 tabular-nums">
+        <span>{format(bins[0].from)}</span>
+        <span>{format(bins[bins.length - 1].to)}</span>
+      </div>
+    </div>
+  );
+};
+
+const StatisticsOverlay: React.FC<StatisticsOverlayProps> = ({ images, classes, onClose }) => {
+  const [unit, setUnit] = useState<Unit>('px');
+  const stats = useMemo(() => computeDatasetStats(images, classes), [images, classes]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const measured = getMeasuredBoxes(stats.boxes, unit);
+  const measure = (box: BoxStats, key: Measure) => getMeasure(box, key, unit);
+  const distributions = useMemo(() => buildDistributions(stats.boxes, unit), [stats, unit]);
+  const heatmap = useMemo(() => buildCenterHeatmap(stats.boxes, HEATMAP_SIZE), [stats]);
+  const heatmapMax = Math.max(1, ...heatmap.flat());
+
+  const scatterStep = Math.max(1, Math.ceil(measured.length / SCATTER_MAX_POINTS));
+  const scatterPoints = measured.filter((_, i) => i % scatterStep === 0);
+  const scatterMax = Math.max(1e-9, ...scatterPoints.map(box => Math.max(measure(box, 'width'), measure(box, 'height'))));
+
+  const exportJson = () => {
+    const report = {
+      imageCount: stats.imageCount,
+      boxCount: stats.boxCount,
+      imagesByStatus: stats.imagesByStatus,
+      boxesByClass: stats.boxesByClass,
+      boxesPerImage: stats.boxesPerImage,
+      distributions: {
+        px: buildDistributions(stats.boxes, 'px'),
+        normalized: buildDistributions(stats.boxes, 'normalized'),
+        aspectRatio: buildHistogram(stats.boxes.map(box => box.aspectRatio)),
+      },
+      centerHeatmap: heatmap,
+      boxes: stats.boxes,
+    };
+    downloadBlob(new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }), 'statistics.json');
+  };
+
+  const exportCsv = () => downloadBlob(new Blob([formatStatsCsv(stats)], { type: 'text/csv;charset=utf-8' }), 'boxes.csv');
+
+  const format = (value: number) => formatValue(value, unit);
+  const average = stats.imageCount > 0 ? stats.boxCount / stats.imageCount : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-lg border border-gray-700 p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Dataset statistics"
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center">
+            <BarChartIcon className="w-6 h-6 mr-2 text-cyan-400" />
+            Dataset Statistics
+          </h2>
+          <div className="flex items-center space-x-3">
+            <button onClick={exportCsv} disabled={stats.boxCount === 0} className="flex items-center text-sm text-cyan-400 hover:underline disabled:opacity-50 disabled:no-underline">
+              <DownloadIcon className="w-4 h-4 mr-1" /> CSV
+            </button>
+            <button onClick={exportJson} className="flex items-center text-sm text-cyan-400 hover:underline">
+              <DownloadIcon className="w-4 h-4 mr-1" /> JSON
+            </button>
+            <button onClick={onClose} title="Close">
+              <CloseIcon className="w-5 h-5 text-gray-400 hover:text-white" />
+            </button>
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-300 mb-4">
+          {stats.imageCount} image{stats.imageCount === 1 ? '' : 's'} · {stats.boxCount} box{stats.boxCount === 1 ? '' : 'es'} · {average.toFixed(1)} per image
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <section className={sectionClasses}>
+            <h3 className="font-semibold text-sm text-gray-400 mb-2">Images per status</h3>
+            <BarList entries={stats.imagesByStatus} />
+          </section>
+          <section className={sectionClasses}>
+            <h3 className="font-semibold text-sm text-gray-400 mb-2">Boxes per class</h3>
+            <BarList entries={stats.boxesByClass} />
+          </section>
+          <section className={`${sectionClasses} md:col-span-2`}>
+            <h3 className="font-semibold text-sm text-gray-400 mb-2">Boxes per image</h3>
+            <HistogramChart bins={stats.boxesPerImage} format={(value) => String(Math.round(value))} />
+          </section>
+        </div>
+
+        <div className="flex items-center justify-between mt-6 mb-2">
+          <h3 className="font-semibold text-gray-300">Box sizes</h3>
+          <div className="flex rounded-md overflow-hidden border border-gray-600 text-sm" role="group" aria-label="Unit">
+            {([['px', 'Pixels'], ['normalized', 'Normalized']] as [Unit, string][]).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setUnit(value)}
+                className={`px-2 py-1 transition-colors ${unit === value ? 'bg-cyan-600 text-white' : 'hover:bg-gray-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {(['width', 'height', 'area'] as Measure[]).map(key => (
+            <section key={key} className={sectionClasses}>
+              <h3 className="font-semibold text-sm text-gray-400 mb-2 capitalize">{key}{unit === 'px' ? (key === 'area' ? ' (px²)' : ' (px)') : ''}</h3>
+              <HistogramChart bins={distributions[key]} format={format} />
+            </section>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <section className={sectionClasses}>
+            <h3 className="font-semibold text-sm text-gray-400 mb-2">Width vs. height</h3>
+            <svg viewBox={`0 0 ${SCATTER_SIZE} ${SCATTER_SIZE}`} className="w-full max-w-xs bg-gray-900/60 rounded" aria-label="Aspect ratio scatter">
+              {/* Boxes on the diagonal are square */}
+              <line x1={0} y1={SCATTER_SIZE} x2={SCATTER_SIZE} y2={0} stroke="#4b5563" strokeDasharray="4 4" />
+              {scatterPoints.map((box, i) => (
+                <circle
+                  key={i}
+                  cx={(measure(box, 'width') / scatterMax) * SCATTER_SIZE}
+                  cy={SCATTER_SIZE - (measure(box, 'height') / scatterMax) * SCATTER_SIZE}
+                  r={2}
+                  fill={getClassById(classes, box.classId ?? undefined)?.color ?? UNASSIGNED_COLOR}
+                  fillOpacity={0.7}
+                >
+                  <title>{`${box.className}: ${format(measure(box, 'width'))} × ${format(measure(box, 'height'))} (${box.aspectRatio.toFixed(2)}:1)`}</title>
+                </circle>
+              ))}
+            </svg>
+            <p className="text-xs text-gray-500 mt-1">Both axes 0–{format(scatterMax)}{scatterStep > 1 ? ` · every ${scatterStep}th box shown` : ''}</p>
+          </section>
+          <section className={sectionClasses}>
+            <h3 className="font-semibold text-sm text-gray-400 mb-2">Box centers</h3>
+            <div
+              className="grid w-full max-w-xs aspect-square bg-gray-900/60 rounded overflow-hidden"
+              style={{ gridTemplateColumns: `repeat(${HEATMAP_SIZE}, 1fr)` }}
+              aria-label="Box center heatmap"
+            >
+              {heatmap.flatMap((row, y) => row.map((count, x) => (
+                <div key={`${x}-${y}`} style={{ backgroundColor: `rgba(34, 211, 238, ${count / heatmapMax})` }} title={`${count} box${count === 1 ? '' : 'es'}`} />
+              )))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Image area, top-left to bottom-right</p>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatisticsOverlay;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { CloudIcon, FolderIcon, DatabaseIcon } from './Icons';
+import { S3Config, loadS3Config, saveS3Config } from '../utils/s3';
+
+interface StoragePanelProps {
+  labelSubfolder: string;
+  onLabelSubfolderChange: (value: string) => void;
+  canOpenLocalFolder: boolean;
+  isOpening: boolean;
+  connections: string[]; // Names of the local folders and buckets opened in this tab
+  onOpenLocalFolder: () => void;
+  onOpenS3: (config: S3Config) => void;
+}
+
+const S3_FIELDS: { key: keyof S3Config; label: string; placeholder: string; type?: string }[] = [
+  { key: 'endpoint', label: 'Endpoint', placeholder: 'http://localhost:9000' },
+  { key: 'region', label: 'Region', placeholder: 'us-east-1' },
+  { key: 'bucket', label: 'Bucket', placeholder: 'datasets' },
+  { key: 'prefix', label: 'Folder', placeholder: '(bucket root)' },
+  { key: 'accessKeyId', label: 'Access key', placeholder: 'minioadmin' },
+  { key: 'secretAccessKey', label: 'Secret key', placeholder: 'Not stored', type: 'password' },
+];
+
+const StoragePanel: React.FC<StoragePanelProps> = ({
+  labelSubfolder,
+  onLabelSubfolderChange,
+  canOpenLocalFolder,
+  isOpening,
+  connections,
+  onOpenLocalFolder,
+  onOpenS3,
+}) => {
+  const [s3Config, setS3Config] = useState<S3Config>(loadS3Config);
+  const canOpenS3 = !isOpening && !!s3Config.endpoint && !!s3Config.bucket && !!s3Config.accessKeyId && !!s3Config.secretAccessKey;
+
+  const handleOpenS3 = () => {
+    saveS3Config(s3Config);
+    onOpenS3(s3Config);
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-lg p-6 border border-gray-700">
+      <h2 className="text-xl font-semibold mb-4 flex items-center">
+        <CloudIcon className="w-6 h-6 mr-2 text-cyan-400" />
+        Storage
+      </h2>
+      <label className="flex items-center mb-4 text-sm text-gray-400">
+        <span className="mr-2">Labels folder</span>
+        <input
+          type="text"
+          defaultValue={labelSubfolder}
+          onBlur={(e) => onLabelSubfolderChange(e.target.value)}
+          placeholder="(next to image)"
+          title="Subfolder of the image's folder to read and write labels in, e.g. labels. Leave empty to use the image's folder."
+          className="flex-grow bg-gray-900 border border-gray-600 rounded px-2 py-1 text-gray-100"
+        />
+      </label>
+      <button
+        onClick={onOpenLocalFolder}
+        disabled={!canOpenLocalFolder || isOpening}
+        title={canOpenLocalFolder ? 'Open the images of a folder; labels are saved straight into it' : 'This browser cannot write to local folders'}
+        className="flex items-center justify-center w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <FolderIcon className="w-5 h-5 mr-2" /> {isOpening ? 'Opening...' : 'Open Local Folder'}
+      </button>
+      <details className="mt-4 text-sm">
+        <summary className="cursor-pointer text-gray-400">S3-compatible storage</summary>
+        <div className="grid grid-cols-2 gap-2 mt-2">
+          {S3_FIELDS.map(field => (
+            <label key={field.key} className="flex flex-col text-xs text-gray-400">
+              {field.label}
+              <input
+                type={field.type ?? 'text'}
+                value={s3Config[field.key]}
+                onChange={(e) => setS3Config(prev => ({ ...prev, [field.key]: e.target.value.trim() }))}
+                placeholder={field.placeholder}
+                autoComplete="off"
+                className="mt-1 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm text-gray-100"
+              />
+            </label>
+          ))}
+        </div>
+        <button
+          onClick={handleOpenS3}
+          disabled={!canOpenS3}
+          className="flex items-center justify-center w-full mt-3 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <DatabaseIcon className="w-5 h-5 mr-2" /> Open Bucket Folder
+        </button>
+        <p className="mt-2 text-xs text-gray-500">
+          The bucket needs a CORS rule allowing this page's origin and exposing the ETag header.
+        </p>
+      </details>
+      {connections.length > 0 && (
+        <p className="mt-4 text-xs text-gray-400">Connected: {connections.join(', ')}</p>
+      )}
+    </div>
+  );
+};
+
+export default StoragePanel;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { CheckIcon, CloseIcon } from './Icons';
+
+export type ToastKind = 'success' | 'error' | 'info';
+
+export interface Toast {
+  id: number;
+  kind: ToastKind;
+  message: string;
+}
+
+interface ToastsProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}
+
+const KIND_CLASSES: Record<ToastKind, string> = {
+  success: 'bg-green-900/90 border-green-600 text-green-100',
+  error: 'bg-red-900/90 border-red-600 text-red-100',
+  info: 'bg-gray-800/95 border-gray-600 text-gray-100',
+};
+
+const Toasts: React.FC<ToastsProps> = ({ toasts, onDismiss }) => (
+  <div className="fixed bottom-4 right-4 z-50 flex flex-col items-end space-y-2" aria-live="polite">
+    {toasts.map(toast => (
+      <div
+        key={toast.id}
+        className={`flex items-start max-w-sm px-4 py-3 rounded-md border shadow-lg text-sm ${KIND_CLASSES[toast.kind]}`}
+        role={toast.kind === 'error' ? 'alert' : 'status'}
+      >
+        {toast.kind === 'success' && <CheckIcon className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />}
+        <span className="flex-grow">{toast.message}</span>
+        <button onClick={() => onDismiss(toast.id)} title="Dismiss" className="ml-3 flex-shrink-0">
+          <CloseIcon className="w-4 h-4 opacity-70 hover:opacity-100" />
+        </button>
+      </div>
+    ))}
+  </div>
+);
+
+export default Toasts;
@@ -6,7 +6,8 @@
 cat <<EOF > /usr/share/nginx/html/env.js
 window.APP_CONFIG = {
   GOOGLE_CLIENT_ID: "${GOOGLE_CLIENT_ID}",
-  GOOGLE_API_KEY: "${GOOGLE_API_KEY}"
+  GOOGLE_API_KEY: "${GOOGLE_API_KEY}",
+  DRIVE_API_ORIGIN: "${DRIVE_API_ORIGIN}"
 };
 EOF
 
@@ -0,0 +1,124 @@
+// Minimal stand-in for the Drive v3 REST endpoints the app uses, backed by a local directory.
+// Folder and file ids are base64url-encoded paths relative to that directory ('root' is the directory itself).
+//
+//   node scripts/mock-drive-server.mjs ./my-dataset 8787
+//
+// Then start the app container with DRIVE_API_ORIGIN=http://localhost:8787 (entrypoint.sh writes it
+// to window.APP_CONFIG in env.js; outside the container, create env.js with that entry) and open a folder by id,
+// e.g. the id of the sub-directory `images` is the output of `node -p "Buffer.from('images').toString('base64url')"`.
+import { createServer } from 'node:http';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+const rootDir = path.resolve(process.argv[2] ?? '.');
+const port = Number(process.argv[3] ?? 8787);
+const PAGE_SIZE_LIMIT = 100; // Small on purpose, so paging is exercised
+const FOLDER_MIME = 'application/vnd.google-apps.folder';
+const MIME_TYPES = { '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.webp': 'image/webp', '.txt': 'text/plain', '.xml': 'application/xml', '.json': 'application/json' };
+
+const toId = (relPath) => (relPath ? Buffer.from(relPath).toString('base64url') : 'root');
+const fromId = (id) => (id === 'root' ? '' : Buffer.from(id, 'base64url').toString());
+const resolvePath = (relPath) => {
+  const full = path.resolve(rootDir, relPath);
+  if (full !== rootDir && !full.startsWith(rootDir + path.sep)) throw Object.assign(new Error('Outside root'), { status: 400 });
+  return full;
+};
+
+const describe = async (relPath) => {
+  const stat = await fs.stat(resolvePath(relPath));
+  return {
+    id: toId(relPath),
+    name: path.basename(relPath),
+    mimeType: stat.isDirectory() ? FOLDER_MIME : MIME_TYPES[path.extname(relPath).toLowerCase()] ?? 'application/octet-stream',
+    modifiedTime: stat.mtime.toISOString(),
+    parents: [toId(path.dirname(relPath) === '.' ? '' : path.dirname(relPath))],
+  };
+};
+
+// Understands the clauses the app sends: `'<id>' in parents`, `name = '<n>'`, `mimeType = '<m>'`,
+// `mimeType contains '<m>'` and `trashed = false`, joined with `and`.
+const matchQuery = (q) => {
+  const value = (pattern) => q.match(pattern)?.[1]?.replace(/\\'/g, "'").replace(/\\\\/g, '\\');
+  const parent = value(/'((?:[^'\\]|\\.)*)' in parents/);
+  const name = value(/name = '((?:[^'\\]|\\.)*)'/);
+  const mimeEquals = value(/mimeType = '((?:[^'\\]|\\.)*)'/);
+  const mimeContains = value(/mimeType contains '((?:[^'\\]|\\.)*)'/);
+  return {
+    parent: parent === undefined ? '' : fromId(parent),
+    test: (file) => (name === undefined || file.name === name)
+      && (mimeEquals === undefined || file.mimeType === mimeEquals)
+      && (mimeContains === undefined || file.mimeType.includes(mimeContains)),
+  };
+};
+
+const send = (res, status, body, headers = {}) => {
+  const isJson = !(body instanceof Buffer);
+  res.writeHead(status, { 'Content-Type': isJson ? 'application/json' : headers['Content-Type'], ...headers });
+  res.end(isJson ? JSON.stringify(body) : body);
+};
+
+const readBody = async (req) => {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks);
+};
+
+const handle = async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const upload = url.pathname.startsWith('/upload');
+  const route = url.pathname.replace(/^\/upload/, '').match(/^\/drive\/v3\/files(?:\/([^/]+))?$/);
+  if (!route) return send(res, 404, { error: { message: 'Not found' } });
+  const fileId = route[1];
+
+  if (req.method === 'GET' && !fileId) {
+    const { parent, test } = matchQuery(url.searchParams.get('q') ?? '');
+    const entries = await fs.readdir(resolvePath(parent));
+    const files = (await Promise.all(entries.map(entry => describe(path.join(parent, entry))))).filter(test);
+    const offset = Number(url.searchParams.get('pageToken') ?? 0);
+    const pageSize = Math.min(Number(url.searchParams.get('pageSize') ?? PAGE_SIZE_LIMIT), PAGE_SIZE_LIMIT);
+    const page = files.slice(offset, offset + pageSize);
+    return send(res, 200, { files: page, ...(offset + pageSize < files.length && { nextPageToken: String(offset + pageSize) }) });
+  }
+
+  if (req.method === 'GET') {
+    const relPath = fromId(fileId);
+    const meta = await describe(relPath);
+    if (url.searchParams.get('alt') === 'media') return send(res, 200, await fs.readFile(resolvePath(relPath)), { 'Content-Type': meta.mimeType });
+    return send(res, 200, meta);
+  }
+
+  if (req.method === 'PATCH' && fileId && upload) {
+    const relPath = fromId(fileId);
+    await fs.writeFile(resolvePath(relPath), await readBody(req));
+    return send(res, 200, await describe(relPath));
+  }
+
+  if (req.method === 'POST' && !fileId) {
+    const body = await readBody(req);
+    let metadata;
+    let content = null;
+    if (upload) {
+      // Let the platform parse the multipart body the browser sent
+      const form = await new Request(url, { method: 'POST', headers: { 'content-type': req.headers['content-type'] }, body }).formData();
+      const readPart = async (part) => (typeof part === 'string' ? Buffer.from(part) : Buffer.from(await part.arrayBuffer()));
+      metadata = JSON.parse((await readPart(form.get('metadata'))).toString());
+      content = await readPart(form.get('file'));
+    } else {
+      metadata = JSON.parse(body.toString());
+    }
+    const relPath = path.join(fromId(metadata.parents?.[0] ?? 'root'), metadata.name);
+    if (metadata.mimeType === FOLDER_MIME) await fs.mkdir(resolvePath(relPath), { recursive: true });
+    else await fs.writeFile(resolvePath(relPath), content ?? Buffer.alloc(0));
+    return send(res, 200, await describe(relPath));
+  }
+
+  return send(res, 405, { error: { message: `${req.method} not supported` } });
+};
+
+createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, OPTIONS');
+  if (req.method === 'OPTIONS') return res.writeHead(204).end();
+  handle(req, res).catch(error => send(res, error.status ?? (error.code === 'ENOENT' ? 404 : 500), { error: { message: error.message } }));
+}).listen(port, () => console.log(`Mock Drive serving ${rootDir} on http://localhost:${port}`));
@@ -1,12 +1,104 @@
-
 export interface Point {
   x: number;
   y: number;
 }
 
+export interface AnnotationClass {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// COCO/YOLO convention: 0 = absent (not labeled), 1 = labeled but occluded, 2 = visible
+export type KeypointVisibility = 0 | 1 | 2;
+
+export interface Keypoint {
+  x: number;
+  y: number;
+  visibility: KeypointVisibility;
+}
+
+export interface SkeletonTemplate {
+  id: string;
+  name: string;
+  keypoints: string[];
+  skeleton: [number, number][]; // Pairs of 0-based keypoint indices
+}
+
 export interface Selection {
   id: string;
   start: Point;
   end: Point;
   locked?: boolean;
+  classId?: string;
+  difficult?: boolean;
+  truncated?: boolean;
+  angle?: number; // Degrees, clockwise around the box center
+  points?: Point[]; // Polygon vertices; `start`/`end` then hold the polygon's bounding box
+  keypoints?: Keypoint[]; // Ordered as in the active skeleton template
+  cocoId?: number; // Annotation id from an imported COCO file, kept on export
+}
+
+export type AnnotationTool = 'box' | 'obb' | 'polygon' | 'keypoint';
+
+export interface ImageDimensions {
+  naturalWidth: number;
+  naturalHeight: number;
+}
+
+export type StorageKind = 'drive' | 'local' | 's3';
+
+// Where an image was opened from, so its labels can be written back to the same place
+export interface ImageSource {
+  kind: StorageKind;
+  providerId: string; // Connection that opened the image, see utils/storage.ts
+  id: string; // Drive file id, path inside the local folder or object key
+  name: string;
+  folderId: string | null; // Drive parent id, directory path or key prefix
+  labelVersions?: Record<string, string>; // Label path → version last read or written, to detect edits made elsewhere
+}
+
+// Box suggested by a detection model; it is not part of the annotations until accepted
+export interface Proposal {
+  selection: Selection;
+  score: number;
+  label: string; // Class name as the model calls it
+}
+
+// Box from a model's label file, compared against the annotations but never edited
+export interface Prediction {
+  id: string;
+  classIndex: number; // Index into the class list, as in YOLO files
+  start: Point;
+  end: Point;
+  score: number; // 1 when the file has no confidence column
+}
+
+// Review state of an image; see utils/review.ts for labels and transitions
+export type ImageStatus = 'unlabeled' | 'inProgress' | 'labeled' | 'needsFix' | 'approved';
+
+export interface ReviewComment {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: string; // ISO timestamp
+  selectionId: string | null; // Box the comment is pinned to, null for the whole image
+  resolved: boolean;
+}
+
+export interface ImageItem {
+  id: string;
+  fileName: string;
+  src: string; // Object URL for `blob`
+  blob: Blob;
+  dimensions: ImageDimensions | null;
+  history: Selection[][];
+  historyIndex: number;
+  cocoId?: number; // Image id from an imported COCO file, kept on export
+  status: ImageStatus;
+  assignee: string | null;
+  comments: ReviewComment[];
+  source: ImageSource | null;
+  proposals?: Proposal[];
+  predictions?: Prediction[]; // Absent until a prediction file was loaded for the image
 }
@@ -0,0 +1,58 @@
+import type { AnnotationClass, Selection } from '../types';
+
+export const CLASS_COLORS = [
+  '#22d3ee', // cyan-400
+  '#facc15', // yellow-400
+  '#a78bfa', // violet-400
+  '#4ade80', // green-400
+  '#f472b6', // pink-400
+  '#fb923c', // orange-400
+  '#60a5fa', // blue-400
+  '#f87171', // red-400
+];
+
+// Boxes without a (known) class are drawn in this color and exported as index 0,
+// which is what every box used to be before classes existed.
+export const UNASSIGNED_COLOR = '#facc15';
+
+export const DEFAULT_CLASSES: AnnotationClass[] = [
+  { id: 'default', name: 'object', color: CLASS_COLORS[0] },
+];
+
+export const createClass = (name: string, existing: AnnotationClass[]): AnnotationClass => ({
+  id: crypto.randomUUID(),
+  name,
+  color: CLASS_COLORS[existing.length % CLASS_COLORS.length],
+});
+
+export const getClassIndex = (classes: AnnotationClass[], classId?: string): number => {
+  const index = classes.findIndex(c => c.id === classId);
+  return index === -1 ? 0 : index;
+};
+
+export const getClassById = (classes: AnnotationClass[], classId?: string): AnnotationClass | undefined =>
+  classes.find(c => c.id === classId);
+
+// Selections reference classes by id, so renaming and reordering never touch them.
+// Deleting a class moves its boxes to `fallbackClassId` (or leaves them unassigned).
+export const remapDeletedClass = (selections: Selection[], deletedClassId: string, fallbackClassId?: string): Selection[] =>
+  selections.map(sel => sel.classId === deletedClassId ? { ...sel, classId: fallbackClassId } : sel);
+
+// Label files only carry class indices; make sure every index has a class to map to.
+export const ensureClassCount = (classes: AnnotationClass[], count: number): AnnotationClass[] => {
+  if (classes.length >= count) return classes;
+  const extended = [...classes];
+  for (let i = classes.length; i < count; i++) {
+    extended.push(createClass(`class_${i}`, extended));
+  }
+  return extended;
+};
+
+// COCO and VOC files reference classes by name; unknown names are appended to the list.
+export const ensureClassNames = (classes: AnnotationClass[], names: string[]): AnnotationClass[] => {
+  const extended = [...classes];
+  names.forEach(name => {
+    if (!extended.some(cls => cls.name === name)) extended.push(createClass(name, extended));
+  });
+  return extended.length === classes.length ? classes : extended;
+};
@@ -0,0 +1,241 @@
+import type { AnnotationClass, ImageDimensions, ImageItem, Keypoint, KeypointVisibility, Point, SkeletonTemplate } from '../types';
+import type { LabelParseError } from './yolo';
+import { getBoundingRect, getPolygonArea } from './geometry';
+import { getClassIndex } from './classes';
+import { getCurrentSelections } from './images';
+import { countPlacedKeypoints, getTemplateKeypoints } from './keypoints';
+
+export interface CocoImage {
+  id: number;
+  file_name: string;
+  width: number;
+  height: number;
+}
+
+export interface CocoAnnotation {
+  id: number;
+  image_id: number;
+  category_id: number;
+  bbox: [number, number, number, number];
+  area: number;
+  iscrowd: 0 | 1;
+  segmentation: number[][];
+  keypoints?: number[]; // Flat `x y v` triplets
+  num_keypoints?: number;
+}
+
+export interface CocoCategory {
+  id: number;
+  name: string;
+  supercategory?: string;
+  keypoints?: string[];
+  skeleton?: [number, number][]; // 1-based keypoint indices
+}
+
+export interface CocoDataset {
+  info?: Record<string, unknown>;
+  images: CocoImage[];
+  annotations: CocoAnnotation[];
+  categories: CocoCategory[];
+}
+
+export interface ParsedCocoBox {
+  cocoId?: number;
+  className: string;
+  start: Point;
+  end: Point;
+  points?: Point[];
+  keypoints?: Keypoint[];
+}
+
+export interface CocoParseResult {
+  // Keyed by the image's `file_name`
+  boxesByFileName: Map<string, ParsedCocoBox[]>;
+  imageIdsByFileName: Map<string, number>;
+  categoryNames: string[];
+  errors: LabelParseError[];
+}
+
+// Positive 31-bit FNV-1a hash, so derived ids fit COCO tools that read them as int32
+const hashId = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  return (hash >>> 1) || 1;
+};
+
+// Ids imported from a COCO file are kept; everything else gets an id derived from what identifies it
+// (file name, selection id), probing upwards on collisions. Adding or removing one box therefore
+// leaves every other id unchanged.
+const assignIds = <T>(items: T[], getKept: (item: T) => number | undefined, getKey: (item: T) => string): Map<T, number> => {
+  const ids = new Map<T, number>();
+  const used = new Set<number>();
+  items.forEach(item => {
+    const kept = getKept(item);
+    if (kept !== undefined && !used.has(kept)) {
+      ids.set(item, kept);
+      used.add(kept);
+    }
+  });
+  items.forEach(item => {
+    if (ids.has(item)) return;
+    let id = hashId(getKey(item));
+    while (used.has(id)) id = id % 0x7fffffff + 1;
+    ids.set(item, id);
+    used.add(id);
+  });
+  return ids;
+};
+
+// Image and annotation ids are stable (see `assignIds`) and categories follow the class list,
+// so re-exports diff cleanly. Keypoint fields are only written when some box actually has keypoints placed.
+export const buildCocoDataset = (images: ImageItem[], classes: AnnotationClass[], template?: SkeletonTemplate): CocoDataset => {
+  const cocoImages: CocoImage[] = [];
+  const annotations: CocoAnnotation[] = [];
+  const keypointTemplate = template && images.some(image => getCurrentSelections(image).some(sel => countPlacedKeypoints(sel.keypoints) > 0))
+    ? template
+    : undefined;
+
+  const exported = images.filter((image): image is ImageItem & { dimensions: ImageDimensions } => image.dimensions !== null);
+  const imageIds = assignIds(exported, image => image.cocoId, image => image.fileName);
+  const boxes = exported.flatMap(image => getCurrentSelections(image).map(selection => ({ image, selection })));
+  const annotationIds = assignIds(boxes, box => box.selection.cocoId, box => `${box.image.fileName}/${box.selection.id}`);
+
+  exported.forEach(image => {
+    const imageId = imageIds.get(image)!;
+    cocoImages.push({
+      id: imageId,
+      file_name: image.fileName,
+      width: image.dimensions.naturalWidth,
+      height: image.dimensions.naturalHeight,
+    });
+
+    boxes.filter(box => box.image === image).forEach(box => {
+      const { selection } = box;
+      const { x, y, width, height } = getBoundingRect(selection, image.dimensions.naturalWidth, image.dimensions.naturalHeight);
+      if (width <= 0 || height <= 0) return;
+      const polygon = selection.points;
+      annotations.push({
+        id: annotationIds.get(box)!,
+        image_id: imageId,
+        category_id: getClassIndex(classes, selection.classId) + 1,
+        bbox: [x, y, width, height],
+        area: polygon ? Math.round(getPolygonArea(polygon) * 100) / 100 : width * height,
+        iscrowd: 0,
+        segmentation: polygon ? [polygon.flatMap(p => [Math.round(p.x * 100) / 100, Math.round(p.y * 100) / 100])] : [],
+        ...(keypointTemplate && {
+          keypoints: getTemplateKeypoints(selection, keypointTemplate).flatMap(k => [Math.round(k.x * 100) / 100, Math.round(k.y * 100) / 100, k.visibility]),
+          num_keypoints: countPlacedKeypoints(selection.keypoints),
+        }),
+      });
+    });
+  });
+
+  return {
+    info: { description: 'Exported from Bounding Box Annotation Tool', date_created: new Date().toISOString().slice(0, 10) },
+    images: cocoImages,
+    annotations,
+    categories: classes.map((cls, index) => ({
+      id: index + 1,
+      name: cls.name,
+      supercategory: 'none',
+      ...(keypointTemplate && {
+        keypoints: keypointTemplate.keypoints,
+        skeleton: keypointTemplate.skeleton.map(([a, b]) => [a + 1, b + 1] as [number, number]),
+      }),
+    })),
+  };
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Entries that are not objects are reported and skipped so one bad entry does not stop the import
+const getEntries = <T>(list: unknown[], kind: string, report: (message: string, text?: string) => void): Partial<T>[] =>
+  list.filter((entry): entry is Partial<T> => {
+    if (!isObject(entry)) report(`Invalid ${kind} entry`, JSON.stringify(entry));
+    return isObject(entry);
+  });
+
+export const parseCocoDataset = (text: string): CocoParseResult => {
+  const boxesByFileName = new Map<string, ParsedCocoBox[]>();
+  const imageIdsByFileName = new Map<string, number>();
+  const errors: LabelParseError[] = [];
+  const report = (message: string, text = '') => errors.push({ line: 0, text, message });
+  const fail = () => ({ boxesByFileName, imageIdsByFileName, categoryNames: [], errors });
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    report(`Not valid JSON: ${(e as Error).message}`);
+    return fail();
+  }
+  if (!isObject(data) || !Array.isArray(data.images) || !Array.isArray(data.annotations) || !Array.isArray(data.categories)) {
+    report('Missing "images", "annotations" or "categories" array');
+    return fail();
+  }
+
+  const categoryNames = new Map<number, string>();
+  getEntries<CocoCategory>(data.categories, 'category', report)
+    .sort((a, b) => (isFiniteNumber(a.id) ? a.id : 0) - (isFiniteNumber(b.id) ? b.id : 0))
+    .forEach(category => {
+      if (isFiniteNumber(category.id) && typeof category.name === 'string') {
+        categoryNames.set(category.id, category.name);
+      } else {
+        report('Invalid category', JSON.stringify(category));
+      }
+    });
+
+  const fileNames = new Map<number, string>();
+  getEntries<CocoImage>(data.images, 'image', report).forEach(image => {
+    if (isFiniteNumber(image.id) && typeof image.file_name === 'string') {
+      fileNames.set(image.id, image.file_name);
+      boxesByFileName.set(image.file_name, []);
+      imageIdsByFileName.set(image.file_name, image.id);
+    } else {
+      report('Invalid image entry', JSON.stringify(image));
+    }
+  });
+
+  getEntries<CocoAnnotation>(data.annotations, 'annotation', report).forEach(annotation => {
+    if (!isFiniteNumber(annotation.image_id) || !isFiniteNumber(annotation.category_id)) {
+      report('Invalid annotation entry', JSON.stringify(annotation));
+      return;
+    }
+    const fileName = fileNames.get(annotation.image_id);
+    const className = categoryNames.get(annotation.category_id);
+    if (fileName === undefined) {
+      report(`Annotation ${annotation.id} references unknown image ${annotation.image_id}`);
+      return;
+    }
+    if (className === undefined) {
+      report(`Annotation ${annotation.id} references unknown category ${annotation.category_id}`);
+      return;
+    }
+    if (!Array.isArray(annotation.bbox) || annotation.bbox.length !== 4 || !annotation.bbox.every(isFiniteNumber)) {
+      report(`Annotation ${annotation.id} has an invalid bbox`, JSON.stringify(annotation.bbox));
+      return;
+    }
+    const [x, y, width, height] = annotation.bbox;
+    if (width <= 0 || height <= 0) {
+      report(`Annotation ${annotation.id} has zero width or height`);
+      return;
+    }
+    // Only the first ring of polygon segmentations is kept; RLE masks fall back to the bbox.
+    const ring = Array.isArray(annotation.segmentation) ? annotation.segmentation[0] : undefined;
+    const points = Array.isArray(ring) && ring.length >= 6 && ring.every(isFiniteNumber)
+      ? Array.from({ length: Math.floor(ring.length / 2) }, (_, i) => ({ x: ring[i * 2], y: ring[i * 2 + 1] }))
+      : undefined;
+    const flat = annotation.keypoints;
+    const keypoints = Array.isArray(flat) && flat.length >= 3 && flat.every(isFiniteNumber)
+      ? Array.from({ length: Math.floor(flat.length / 3) }, (_, i): Keypoint => {
+          const visibility = Math.max(0, Math.min(2, Math.round(flat[i * 3 + 2]))) as KeypointVisibility;
+          return visibility ? { x: flat[i * 3], y: flat[i * 3 + 1], visibility } : { x: 0, y: 0, visibility: 0 };
+        })
+      : undefined;
+    const cocoId = isFiniteNumber(annotation.id) ? annotation.id : undefined;
+    boxesByFileName.get(fileName)!.push({ cocoId, className, start: { x, y }, end: { x: x + width, y: y + height }, points, keypoints });
+  });
+
+  return { boxesByFileName, imageIdsByFileName, categoryNames: [...categoryNames.values()], errors };
+};
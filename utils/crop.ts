@@ -0,0 +1,124 @@
+import JSZip from 'jszip';
+import type { AnnotationClass, ImageItem } from '../types';
+import { getBoundingRect, Rect } from './geometry';
+import { getBaseName, getCurrentSelections } from './images';
+import { getClassById } from './classes';
+
+export type CropFormat = 'png' | 'jpeg' | 'webp';
+
+export interface CropOptions {
+  format: CropFormat;
+  quality: number; // 0-1, ignored for PNG
+  padding: number; // Pixels added on every side, clamped to the image
+  squarePad: boolean; // Pad the shorter side so crops are square without distortion
+  resizeWidth: number; // 0 keeps the cropped size
+  resizeHeight: number;
+  nameTemplate: string; // Supports {image}, {class} and {index}
+}
+
+export interface CropFile {
+  name: string;
+  blob: Blob;
+}
+
+export const DEFAULT_CROP_OPTIONS: CropOptions = {
+  format: 'png',
+  quality: 0.92,
+  padding: 0,
+  squarePad: false,
+  resizeWidth: 0,
+  resizeHeight: 0,
+  nameTemplate: '{image}_{class}_{index}',
+};
+
+const CROP_EXTENSIONS: Record<CropFormat, string> = { png: 'png', jpeg: 'jpg', webp: 'webp' };
+
+const sanitizeFileNamePart = (value: string) => value.replace(/[^\w\-.]+/g, '_');
+
+// The whole name is sanitized, since characters such as "/" typed into the template would create folders in the zip
+export const formatCropName = (template: string, imageName: string, className: string, index: number, format: CropFormat) => {
+  const name = template
+    .replace(/\{image\}/g, getBaseName(imageName))
+    .replace(/\{class\}/g, className)
+    .replace(/\{index\}/g, String(index + 1).padStart(3, '0'));
+  return `${sanitizeFileNamePart(name).replace(/^\.+/, '') || 'crop'}.${CROP_EXTENSIONS[format]}`;
+};
+
+// The region may extend past the image when square-padding; that part is left transparent
+// (PNG/WebP) or black (JPEG) rather than stretching the object.
+const getCropRegion = (rect: Rect, imageWidth: number, imageHeight: number, { padding, squarePad }: CropOptions): Rect => {
+  let x = Math.max(0, rect.x - padding);
+  let y = Math.max(0, rect.y - padding);
+  let width = Math.min(imageWidth, rect.x + rect.width + padding) - x;
+  let height = Math.min(imageHeight, rect.y + rect.height + padding) - y;
+  if (squarePad && width !== height) {
+    const size = Math.max(width, height);
+    x -= (size - width) / 2;
+    y -= (size - height) / 2;
+    width = height = size;
+  }
+  return { x: Math.round(x), y: Math.round(y), width: Math.round(width), height: Math.round(height) };
+};
+
+const createCanvas = (width: number, height: number): OffscreenCanvas | HTMLCanvasElement => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const canvasToBlob = (canvas: OffscreenCanvas | HTMLCanvasElement, type: string, quality: number): Promise<Blob> => {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode crop')), type, quality)
+  );
+};
+
+// Crops are cut from the original blob, so they are always full resolution regardless of zoom.
+export const cropImageSelections = async (image: ImageItem, classes: AnnotationClass[], options: CropOptions): Promise<CropFile[]> => {
+  const bitmap = await createImageBitmap(image.blob);
+  const mimeType = `image/${options.format}`;
+  const files: CropFile[] = [];
+
+  try {
+    const selections = getCurrentSelections(image);
+    for (let i = 0; i < selections.length; i++) {
+      const rect = getBoundingRect(selections[i], bitmap.width, bitmap.height);
+      if (rect.width <= 0 || rect.height <= 0) continue;
+      const region = getCropRegion(rect, bitmap.width, bitmap.height, options);
+      const outWidth = options.resizeWidth > 0 ? options.resizeWidth : region.width;
+      const outHeight = options.resizeHeight > 0 ? options.resizeHeight : region.height;
+
+      const canvas = createCanvas(outWidth, outHeight);
+      const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+      if (options.format === 'jpeg') {
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, outWidth, outHeight);
+      }
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(bitmap, region.x, region.y, region.width, region.height, 0, 0, outWidth, outHeight);
+
+      const className = getClassById(classes, selections[i].classId)?.name ?? 'unassigned';
+      files.push({
+        name: formatCropName(options.nameTemplate, image.fileName, className, i, options.format),
+        blob: await canvasToBlob(canvas, mimeType, options.quality),
+      });
+    }
+  } finally {
+    bitmap.close();
+  }
+  return files;
+};
+
+export const zipCropFiles = (files: CropFile[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const used = new Map<string, number>();
+  files.forEach(file => {
+    const count = used.get(file.name) ?? 0;
+    used.set(file.name, count + 1);
+    const name = count === 0 ? file.name : `${getBaseName(file.name)}_${count}${file.name.slice(file.name.lastIndexOf('.'))}`;
+    zip.file(name, file.blob, { compression: 'STORE' });
+  });
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,61 @@
+import JSZip from 'jszip';
+import type { AnnotationClass, ImageItem } from '../types';
+import { formatYoloLabels } from './yolo';
+import { getBoundingRect } from './geometry';
+import { getBaseName, getCurrentSelections } from './images';
+import { splitDataset, SplitOptions } from './split';
+
+export const formatDataYaml = (classes: AnnotationClass[]): string => [
+  'path: .',
+  'train: images/train',
+  'val: images/val',
+  '',
+  `nc: ${classes.length}`,
+  'names:',
+  // JSON strings are valid double-quoted YAML scalars, which keeps odd class names safe.
+  ...classes.map((cls, index) => `  ${index}: ${JSON.stringify(cls.name)}`),
+  '',
+].join('\n');
+
+// Two queued images may share a file name (e.g. picked from different folders). Names are kept
+// unique by base name, since label files drop the extension: cat.jpg and cat.png would share cat.txt.
+export const createUniqueNamer = () => {
+  const used = new Set<string>();
+  return (fileName: string) => {
+    const extension = fileName.includes('.') ? fileName.slice(fileName.lastIndexOf('.')) : '';
+    const baseName = getBaseName(fileName);
+    let candidate = baseName;
+    for (let i = 1; used.has(candidate.toLowerCase()); i++) {
+      candidate = `${baseName}_${i}`;
+    }
+    used.add(candidate.toLowerCase());
+    return `${candidate}${extension}`;
+  };
+};
+
+export interface YoloDatasetExport {
+  zip: Blob;
+  skipped: string[]; // Images left out because their size is unknown
+}
+
+// Builds the Ultralytics layout: images/{train,val}, labels/{train,val} and data.yaml.
+export const buildYoloDatasetZip = async (images: ImageItem[], classes: AnnotationClass[], options: SplitOptions): Promise<YoloDatasetExport> => {
+  const zip = new JSZip();
+  const uniqueName = createUniqueNamer();
+  const split = splitDataset(images.filter(image => image.dimensions), options);
+  const skipped = images.filter(image => !image.dimensions).map(image => image.fileName);
+
+  (['train', 'val'] as const).forEach(subset => {
+    split[subset].forEach(image => {
+      const fileName = uniqueName(image.fileName);
+      const { naturalWidth, naturalHeight } = image.dimensions!;
+      const rects = getCurrentSelections(image).map(sel => ({ classId: sel.classId, ...getBoundingRect(sel, naturalWidth, naturalHeight) }));
+      // Images are already compressed; deflating them again only costs time.
+      zip.file(`images/${subset}/${fileName}`, image.blob, { compression: 'STORE' });
+      zip.file(`labels/${subset}/${getBaseName(fileName)}.txt`, formatYoloLabels(rects, classes, image.dimensions!));
+    });
+  });
+  zip.file('data.yaml', formatDataYaml(classes));
+
+  return { zip: await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }), skipped };
+};
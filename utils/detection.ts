@@ -0,0 +1,127 @@
+import type { AnnotationClass, ImageDimensions, Proposal } from '../types';
+import { getRectIoU, Rect } from './geometry';
+
+export interface DetectionSettings {
+  inputSize: number; // Square model input, 640 for standard YOLO exports
+  confidence: number;
+  iou: number; // Overlap above which NMS keeps only the higher-scoring box of a class
+  maxDetections: number;
+}
+
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  inputSize: 640,
+  confidence: 0.25,
+  iou: 0.45,
+  maxDetections: 300,
+};
+
+export interface Detection extends Rect {
+  score: number;
+  classIndex: number;
+}
+
+// How the detection worker fitted an image into the square model input (see detectionWorker.ts)
+export interface Letterbox {
+  scale: number;
+  padX: number;
+  padY: number;
+  dimensions: ImageDimensions;
+}
+
+// Understands the two common YOLO output layouts: [1, 4 + classes, anchors] (YOLOv8 and later)
+// and [1, anchors, 5 + classes] with an objectness column (YOLOv5). Boxes are center/size in
+// model input pixels and are mapped back to the original image.
+export const decodeYoloOutput = (
+  data: Float32Array,
+  dims: readonly number[],
+  image: Letterbox,
+  classCount: number,
+  confidence: number,
+): Detection[] => {
+  const [, a, b] = dims;
+  const isTransposed = a < b;
+  const anchors = isTransposed ? b : a;
+  const channels = isTransposed ? a : b;
+  const hasObjectness = !isTransposed && (classCount === 0 || channels === 5 + classCount);
+  const firstClass = hasObjectness ? 5 : 4;
+  const classes = channels - firstClass;
+  const read = isTransposed ? (anchor: number, channel: number) => data[channel * anchors + anchor] : (anchor: number, channel: number) => data[anchor * channels + channel];
+
+  const { naturalWidth, naturalHeight } = image.dimensions;
+  const detections: Detection[] = [];
+  for (let i = 0; i < anchors; i++) {
+    const objectness = hasObjectness ? read(i, 4) : 1;
+    if (objectness < confidence) continue;
+    let classIndex = 0;
+    let best = -Infinity;
+    for (let c = 0; c < classes; c++) {
+      const value = read(i, firstClass + c);
+      if (value > best) {
+        best = value;
+        classIndex = c;
+      }
+    }
+    const score = best * objectness;
+    if (score < confidence) continue;
+
+    const [cx, cy, w, h] = [read(i, 0), read(i, 1), read(i, 2), read(i, 3)];
+    const x1 = Math.max(0, (cx - w / 2 - image.padX) / image.scale);
+    const y1 = Math.max(0, (cy - h / 2 - image.padY) / image.scale);
+    const x2 = Math.min(naturalWidth, (cx + w / 2 - image.padX) / image.scale);
+    const y2 = Math.min(naturalHeight, (cy + h / 2 - image.padY) / image.scale);
+    if (x2 - x1 < 1 || y2 - y1 < 1) continue;
+    detections.push({ x: x1, y: y1, width: x2 - x1, height: y2 - y1, score, classIndex });
+  }
+  return detections;
+};
+
+// Greedy per-class non-maximum suppression
+export const nonMaxSuppression = (detections: Detection[], iou: number, maxDetections: number): Detection[] => {
+  const kept: Detection[] = [];
+  for (const detection of [...detections].sort((a, b) => b.score - a.score)) {
+    if (kept.length >= maxDetections) break;
+    if (!kept.some(other => other.classIndex === detection.classIndex && getRectIoU(other, detection) > iou)) kept.push(detection);
+  }
+  return kept;
+};
+
+// Ultralytics exports store `names` as a Python dict literal in the model metadata, which
+// protobuf writes after the graph, so only the end of the file is searched.
+const METADATA_SEARCH_BYTES = 256 * 1024;
+const NAMES_PATTERN = /\{0: (?:'[^']*'|"[^"]*")(?:, \d+: (?:'[^']*'|"[^"]*"))*\}/;
+
+export const readModelClassNames = (model: ArrayBuffer): string[] => {
+  const tail = new TextDecoder().decode(new Uint8Array(model, Math.max(0, model.byteLength - METADATA_SEARCH_BYTES)));
+  const match = tail.match(NAMES_PATTERN);
+  if (!match) return [];
+  return [...match[0].matchAll(/(\d+): (?:'([^']*)'|"([^"]*)")/g)]
+    .sort((a, b) => Number(a[1]) - Number(b[1]))
+    .map(entry => entry[2] ?? entry[3]);
+};
+
+// One name per line, as in a `.names` file; `0: person` style prefixes are ignored
+export const parseClassNames = (text: string): string[] =>
+  text.split(/\r?\n/).map(line => line.replace(/^\s*\d+\s*[:=]\s*/, '').trim()).filter(Boolean);
+
+// Model class index → project class id, or null to drop detections of that class
+export type ClassMapping = (string | null)[];
+
+export const buildClassMapping = (modelNames: string[], classes: AnnotationClass[]): ClassMapping =>
+  modelNames.map(name => classes.find(cls => cls.name.trim().toLowerCase() === name.trim().toLowerCase())?.id ?? null);
+
+export const toProposals = (detections: Detection[], modelNames: string[], mapping: ClassMapping): Proposal[] => {
+  const idPrefix = `proposal-${Date.now()}`;
+  return detections
+    .filter(detection => mapping[detection.classIndex])
+    .map((detection, i) => ({
+      selection: {
+        id: `${idPrefix}-${i}`,
+        start: { x: detection.x, y: detection.y },
+        end: { x: detection.x + detection.width, y: detection.y + detection.height },
+        locked: false,
+        classId: mapping[detection.classIndex]!,
+      },
+      score: detection.score,
+      label: modelNames[detection.classIndex] ?? `class ${detection.classIndex}`,
+    }));
+};
@@ -0,0 +1,140 @@
+import type { Letterbox } from './detection';
+
+// ONNX Runtime (WASM backend, CPU) runs in a module worker so neither inference nor reading the
+// pixels blocks the editor. Import maps do not apply inside workers, so the runtime is imported by URL.
+const ORT_VERSION = '1.20.1';
+const ORT_BASE_URL = `https://cdn.jsdelivr.net/npm/onnxruntime-web@${ORT_VERSION}/dist/`;
+
+const WORKER_SOURCE = `
+import * as ort from '${ORT_BASE_URL}ort.wasm.min.mjs';
+ort.env.wasm.wasmPaths = '${ORT_BASE_URL}';
+const LETTERBOX_FILL = 'rgb(114, 114, 114)'; // The padding color YOLO is trained with
+let session = null;
+
+// Fits the image into the square model input without distorting it, padding the rest, and
+// returns its RGB planes (NCHW) scaled to 0-1
+const letterboxImage = (bitmap, size) => {
+  const { width, height } = bitmap;
+  const scale = Math.min(size / width, size / height);
+  const drawWidth = Math.round(width * scale);
+  const drawHeight = Math.round(height * scale);
+  const padX = (size - drawWidth) / 2;
+  const padY = (size - drawHeight) / 2;
+
+  const ctx = new OffscreenCanvas(size, size).getContext('2d', { willReadFrequently: true });
+  ctx.fillStyle = LETTERBOX_FILL;
+  ctx.fillRect(0, 0, size, size);
+  ctx.drawImage(bitmap, padX, padY, drawWidth, drawHeight);
+
+  const { data } = ctx.getImageData(0, 0, size, size);
+  const area = size * size;
+  const pixels = new Float32Array(3 * area);
+  for (let i = 0; i < area; i++) {
+    pixels[i] = data[i * 4] / 255;
+    pixels[area + i] = data[i * 4 + 1] / 255;
+    pixels[2 * area + i] = data[i * 4 + 2] / 255;
+  }
+  return { pixels, letterbox: { scale, padX, padY, dimensions: { naturalWidth: width, naturalHeight: height } } };
+};
+
+self.onmessage = async ({ data }) => {
+  try {
+    if (data.type === 'load') {
+      session = await ort.InferenceSession.create(data.model, { executionProviders: ['wasm'] });
+      self.postMessage({ id: data.id });
+    } else if (data.type === 'run') {
+      let prepared;
+      try {
+        prepared = letterboxImage(data.image, data.size);
+      } finally {
+        data.image.close();
+      }
+      const input = new ort.Tensor('float32', prepared.pixels, [1, 3, data.size, data.size]);
+      const results = await session.run({ [session.inputNames[0]]: input });
+      const output = results[session.outputNames[0]];
+      self.postMessage(
+        { id: data.id, output: { data: output.data, dims: output.dims }, letterbox: prepared.letterbox },
+        [output.data.buffer],
+      );
+    }
+  } catch (error) {
+    self.postMessage({ id: data.id, error: error && error.message ? error.message : String(error) });
+  }
+};
+`;
+
+export interface ModelOutput {
+  data: Float32Array;
+  dims: number[];
+}
+
+export interface DetectorResult {
+  output: ModelOutput;
+  letterbox: Letterbox;
+}
+
+export interface Detector {
+  // Takes ownership of `image`: it is transferred to the worker and closed there
+  run: (image: ImageBitmap, size: number) => Promise<DetectorResult>;
+  dispose: () => void;
+}
+
+// What the worker posts back; `error` replaces the result when a request failed
+interface WorkerResponse extends Partial<DetectorResult> {
+  id: number;
+  error?: string;
+}
+
+// Loads `model` (the bytes of a .onnx file) into a fresh worker. Requests are answered in order,
+// but each carries an id so a failure is reported to the call that caused it.
+export const createDetector = async (model: ArrayBuffer): Promise<Detector> => {
+  const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+  const worker = new Worker(url, { type: 'module' });
+  const pending = new Map<number, { resolve: (response: WorkerResponse) => void; reject: (error: Error) => void }>();
+  let nextId = 0;
+
+  worker.onmessage = ({ data }: MessageEvent<WorkerResponse>) => {
+    const request = pending.get(data.id);
+    if (!request) return;
+    pending.delete(data.id);
+    if (data.error) request.reject(new Error(data.error));
+    else request.resolve(data);
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    const error = new Error(event.message || 'The detection worker failed to start');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  };
+
+  const send = (message: Record<string, unknown>, transfer: Transferable[] = []): Promise<WorkerResponse> =>
+    new Promise((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      worker.postMessage({ ...message, id }, transfer);
+    });
+
+  const dispose = () => {
+    worker.terminate();
+    URL.revokeObjectURL(url);
+    pending.forEach(request => request.reject(new Error('Detector was closed')));
+    pending.clear();
+  };
+
+  try {
+    // The worker gets its own copy; the caller's buffer stays usable
+    const copy = model.slice(0);
+    await send({ type: 'load', model: copy }, [copy]);
+  } catch (error) {
+    dispose();
+    throw error;
+  }
+
+  return {
+    run: async (image, size) => {
+      const { output, letterbox } = await send({ type: 'run', image, size }, [image]);
+      return { output: output!, letterbox: letterbox! };
+    },
+    dispose,
+  };
+};
@@ -0,0 +1,241 @@
+import { DRIVE_PROVIDER_ID, StorageProvider, StoredLabel } from './storage';
+
+declare global {
+  interface Window {
+    APP_CONFIG?: Record<string, string | undefined>; // Written to env.js by entrypoint.sh at deploy time
+  }
+}
+
+const GOOGLE_API_ORIGIN = 'https://www.googleapis.com';
+// Point DRIVE_API_ORIGIN at a local mock (see scripts/mock-drive-server.mjs) to test without a real Drive
+const DRIVE_API_ORIGIN = window.APP_CONFIG?.DRIVE_API_ORIGIN || GOOGLE_API_ORIGIN;
+const DRIVE_API = `${DRIVE_API_ORIGIN}/drive/v3`;
+const DRIVE_UPLOAD_API = `${DRIVE_API_ORIGIN}/upload/drive/v3`;
+export const isDriveMocked = DRIVE_API_ORIGIN !== GOOGLE_API_ORIGIN;
+export const DRIVE_FOLDER_MIME = 'application/vnd.google-apps.folder';
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY = 500; // ms, doubled on every retry
+const VERSION_FIELDS = 'id,name,modifiedTime';
+
+export interface DriveAuth {
+  getToken: () => string;
+  // Asks the token client for a fresh access token, e.g. after the current one expired
+  refreshToken: () => Promise<string>;
+}
+
+// Remote state of a file as last read or written by us, used to detect changes made elsewhere
+export interface DriveFileVersion {
+  id: string;
+  modifiedTime: string;
+}
+
+export class DriveError extends Error {
+  status: number; // 0 for network failures
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'DriveError';
+    this.status = status;
+  }
+}
+
+const RATE_LIMIT_REASONS = ['rateLimitExceeded', 'userRateLimitExceeded'];
+const NON_IDEMPOTENT_METHODS = ['POST'];
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const readError = async (res: Response): Promise<{ message: string; reason?: string }> => {
+  try {
+    const body = await res.json();
+    return { message: body.error?.message ?? res.statusText, reason: body.error?.errors?.[0]?.reason };
+  } catch {
+    return { message: res.statusText || `HTTP ${res.status}` };
+  }
+};
+
+// Authorized fetch that refreshes the token once on 401 and retries 429 responses and Drive's
+// rate-limit 403s with exponential backoff. Network failures and 5xx responses are retried only
+// for idempotent requests: a POST may have been applied before the failure (see createOnce).
+export const driveFetch = async (auth: DriveAuth, url: string, init: RequestInit = {}): Promise<Response> => {
+  const canRetryFailure = !NON_IDEMPOTENT_METHODS.includes((init.method ?? 'GET').toUpperCase());
+  let token = auth.getToken();
+  let hasRefreshed = false;
+  for (let attempt = 1; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(url, { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` } });
+    } catch (e) {
+      if (!canRetryFailure || attempt >= MAX_ATTEMPTS) throw new DriveError(`Network error: ${(e as Error).message}`, 0);
+      await delay(RETRY_BASE_DELAY * 2 ** (attempt - 1));
+      continue;
+    }
+    if (res.ok) return res;
+
+    if (res.status === 401 && !hasRefreshed) {
+      hasRefreshed = true;
+      token = await auth.refreshToken();
+      attempt--; // A token refresh does not count as a retry
+      continue;
+    }
+    const { message, reason } = await readError(res);
+    const isRateLimited = res.status === 429 || (res.status === 403 && RATE_LIMIT_REASONS.includes(reason ?? ''));
+    const isTransient = isRateLimited || (canRetryFailure && res.status >= 500);
+    if (isTransient && attempt < MAX_ATTEMPTS) {
+      await delay(RETRY_BASE_DELAY * 2 ** (attempt - 1));
+      continue;
+    }
+    throw new DriveError(message, res.status);
+  }
+};
+
+// A create that failed without a clear answer may still have created the file, so it is looked
+// up before trying again instead of risking a duplicate.
+const createOnce = async <T>(create: () => Promise<T>, find: () => Promise<T | null>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await create();
+    } catch (e) {
+      const isAmbiguous = e instanceof DriveError && (e.status === 0 || e.status >= 500);
+      if (!isAmbiguous || attempt >= MAX_ATTEMPTS) throw e;
+    }
+    await delay(RETRY_BASE_DELAY * 2 ** (attempt - 1));
+    const created = await find();
+    if (created) return created;
+  }
+};
+
+export const downloadDriveFile = async (auth: DriveAuth, fileId: string): Promise<Blob> =>
+  (await driveFetch(auth, `${DRIVE_API}/files/${fileId}?alt=media`)).blob();
+
+export const getDriveFileMeta = async (auth: DriveAuth, fileId: string): Promise<{ id: string; name: string; parents?: string[] }> =>
+  (await driveFetch(auth, `${DRIVE_API}/files/${fileId}?fields=id,name,parents`)).json();
+
+const escapeQuery = (value: string) => value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+
+export interface DriveListedFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  modifiedTime: string;
+}
+
+// Follows `nextPageToken` until the listing is complete
+const listDriveFiles = async (auth: DriveAuth, q: string): Promise<DriveListedFile[]> => {
+  const files: DriveListedFile[] = [];
+  let pageToken: string | undefined;
+  do {
+    const params = new URLSearchParams({
+      q,
+      fields: 'nextPageToken,files(id,name,mimeType,modifiedTime)',
+      pageSize: '1000',
+      ...(pageToken && { pageToken }),
+    });
+    const page = await (await driveFetch(auth, `${DRIVE_API}/files?${params}`)).json();
+    files.push(...(page.files ?? []));
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+  return files;
+};
+
+export const listFolderImages = (auth: DriveAuth, folderId: string): Promise<DriveListedFile[]> =>
+  listDriveFiles(auth, `'${escapeQuery(folderId)}' in parents and mimeType contains 'image/' and trashed = false`);
+
+// Drive has no suffix search, so plain-text files are listed and filtered by extension
+export const listFolderLabelFiles = async (auth: DriveAuth, folderId: string): Promise<DriveListedFile[]> =>
+  (await listDriveFiles(auth, `'${escapeQuery(folderId)}' in parents and mimeType = 'text/plain' and trashed = false`))
+    .filter(file => file.name.toLowerCase().endsWith('.txt'));
+
+export const findDriveFolder = async (auth: DriveAuth, name: string, parentId: string | null): Promise<string | null> => {
+  const folders = await listDriveFiles(auth, `name = '${escapeQuery(name)}' and '${escapeQuery(parentId ?? 'root')}' in parents and mimeType = '${DRIVE_FOLDER_MIME}' and trashed = false`);
+  return folders[0]?.id ?? null;
+};
+
+export const findOrCreateDriveFolder = async (auth: DriveAuth, name: string, parentId: string | null): Promise<string> => {
+  const existing = await findDriveFolder(auth, name, parentId);
+  if (existing) return existing;
+  return createOnce(async () => {
+    const res = await driveFetch(auth, `${DRIVE_API}/files?fields=id`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, mimeType: DRIVE_FOLDER_MIME, ...(parentId && { parents: [parentId] }) }),
+    });
+    return (await res.json()).id;
+  }, () => findDriveFolder(auth, name, parentId));
+};
+
+// Files without a known parent were created in (and are looked up in) My Drive's root.
+export const findDriveFile = async (auth: DriveAuth, name: string, parentId: string | null): Promise<DriveFileVersion | null> => {
+  const q = `name = '${escapeQuery(name)}' and '${escapeQuery(parentId ?? 'root')}' in parents and trashed = false`;
+  const params = new URLSearchParams({ q, fields: `files(${VERSION_FIELDS})`, orderBy: 'modifiedTime desc', pageSize: '1' });
+  const { files } = await (await driveFetch(auth, `${DRIVE_API}/files?${params}`)).json();
+  return files?.[0] ? { id: files[0].id, modifiedTime: files[0].modifiedTime } : null;
+};
+
+export interface DriveTextFile {
+  name: string;
+  parentId: string | null;
+  mimeType: string;
+  content: string;
+}
+
+// Updates `fileId` in place when given, otherwise creates a new file in the parent folder.
+export const saveDriveTextFile = async (auth: DriveAuth, file: DriveTextFile, fileId?: string): Promise<DriveFileVersion> => {
+  const content = new Blob([file.content], { type: file.mimeType });
+  const toVersion = async (res: Response): Promise<DriveFileVersion> => {
+    const saved = await res.json();
+    return { id: saved.id, modifiedTime: saved.modifiedTime };
+  };
+  if (fileId) {
+    return toVersion(await driveFetch(auth, `${DRIVE_UPLOAD_API}/files/${fileId}?uploadType=media&fields=${VERSION_FIELDS}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': file.mimeType },
+      body: content,
+    }));
+  }
+  const metadata = {
+    name: file.name,
+    mimeType: file.mimeType,
+    ...(file.parentId && { parents: [file.parentId] }),
+  };
+  return createOnce(async () => {
+    const form = new FormData();
+    form.append('metadata', new Blob([JSON.stringify(metadata)], { type: 'application/json' }));
+    form.append('file', content);
+    return toVersion(await driveFetch(auth, `${DRIVE_UPLOAD_API}/files?uploadType=multipart&fields=${VERSION_FIELDS}`, {
+      method: 'POST',
+      body: form,
+    }));
+  }, () => findDriveFile(auth, file.name, file.parentId));
+};
+
+const toStoredLabel = (file: DriveFileVersion): StoredLabel => ({ id: file.id, version: file.modifiedTime });
+
+// Folders are Drive folder ids; a null folder is My Drive's root.
+export const createDriveProvider = (auth: DriveAuth): StorageProvider => ({
+  id: DRIVE_PROVIDER_ID,
+  kind: 'drive',
+  name: 'Google Drive',
+  listImages: async (folderId) =>
+    (await listFolderImages(auth, folderId ?? 'root')).map(file => ({ id: file.id, name: file.name, folderId })),
+  readImage: (entry) => downloadDriveFile(auth, entry.id),
+  listLabels: async (folderId, subfolder) => {
+    const labels = new Map<string, StoredLabel>();
+    (await listFolderLabelFiles(auth, folderId ?? 'root')).forEach(file => labels.set(file.name, toStoredLabel(file)));
+    const subfolderId = subfolder ? await findDriveFolder(auth, subfolder, folderId) : null;
+    if (subfolderId) {
+      (await listFolderLabelFiles(auth, subfolderId)).forEach(file => labels.set(`${subfolder}/${file.name}`, toStoredLabel(file)));
+    }
+    return labels;
+  },
+  readLabel: async (label) => (await downloadDriveFile(auth, label.id)).text(),
+  findLabel: async (folderId, subfolder, name) => {
+    const parentId = subfolder ? await findDriveFolder(auth, subfolder, folderId) : folderId;
+    if (subfolder && !parentId) return null;
+    const file = await findDriveFile(auth, name, parentId);
+    return file && toStoredLabel(file);
+  },
+  writeLabel: async (folderId, subfolder, name, content, mimeType, existing) => {
+    const parentId = subfolder ? await findOrCreateDriveFolder(auth, subfolder, folderId) : folderId;
+    return toStoredLabel(await saveDriveTextFile(auth, { name, parentId, mimeType, content }, existing?.id));
+  },
+});
@@ -0,0 +1,200 @@
+import type { AnnotationClass, ImageItem, Prediction } from '../types';
+import { Rect, getBoundingRect, getRectIoU } from './geometry';
+import { getCurrentSelections } from './images';
+
+export interface EvaluationSettings {
+  iou: number; // Overlap at which a prediction matches a box, for the overlay, precision and recall
+  confidence: number; // Predictions below this score are hidden and left out of precision and recall
+  showPredictions: boolean;
+}
+
+export const DEFAULT_EVALUATION_SETTINGS: EvaluationSettings = {
+  iou: 0.5,
+  confidence: 0.25,
+  showPredictions: true,
+};
+
+// Overlay colors, distinct from the class palette
+export const PREDICTION_COLORS = {
+  match: '#e879f9', // Prediction matched to an annotation
+  falsePositive: '#fb923c',
+  missed: '#ef4444', // Annotation no prediction matched
+};
+
+// mAP@0.5:0.95 averages over these IoU thresholds, as COCO does
+export const MAP_IOU_THRESHOLDS = Array.from({ length: 10 }, (_, i) => 0.5 + i * 0.05);
+
+export const getPredictionRect = (prediction: Prediction): Rect => ({
+  x: Math.min(prediction.start.x, prediction.end.x),
+  y: Math.min(prediction.start.y, prediction.end.y),
+  width: Math.abs(prediction.start.x - prediction.end.x),
+  height: Math.abs(prediction.start.y - prediction.end.y),
+});
+
+interface PredictionMatch {
+  prediction: Prediction;
+  classId: string | null;
+  matchedId: string | null; // The annotation it was matched to, null for a false positive
+}
+
+interface ImageMatch {
+  matches: PredictionMatch[]; // Highest score first
+  groundTruth: { id: string; classId: string }[];
+}
+
+// Greedy matching in descending score order: each prediction takes the unmatched annotation of
+// its class it overlaps most, if that overlap reaches `iou`. Boxes without a class are ignored.
+// Because earlier matches never depend on later predictions, the matches at a confidence
+// threshold are exactly the prefix of predictions scoring at least that much.
+const matchImage = (image: ImageItem, classes: AnnotationClass[], iou: number): ImageMatch => {
+  const width = image.dimensions?.naturalWidth;
+  const height = image.dimensions?.naturalHeight;
+  const groundTruth = getCurrentSelections(image)
+    .filter(selection => classes.some(cls => cls.id === selection.classId))
+    .map(selection => ({ id: selection.id, classId: selection.classId!, rect: getBoundingRect(selection, width, height) }));
+  const matched = new Set<string>();
+
+  const matches = [...(image.predictions ?? [])]
+    .sort((a, b) => b.score - a.score)
+    .map(prediction => {
+      const classId = classes[prediction.classIndex]?.id ?? null;
+      const rect = getPredictionRect(prediction);
+      let best: string | null = null;
+      let bestIoU = iou;
+      for (const box of groundTruth) {
+        if (box.classId !== classId || matched.has(box.id)) continue;
+        const overlap = getRectIoU(rect, box.rect);
+        if (overlap >= bestIoU) {
+          best = box.id;
+          bestIoU = overlap;
+        }
+      }
+      if (best) matched.add(best);
+      return { prediction, classId, matchedId: best };
+    });
+
+  return {
+    matches,
+    groundTruth: groundTruth.map(({ id, classId }) => ({ id, classId })),
+  };
+};
+
+export interface PredictionComparison {
+  matches: { prediction: Prediction; matchedId: string | null }[]; // Predictions at or above the confidence threshold
+  missedIds: string[]; // False negatives
+}
+
+// What the overlay shows for one image
+export const comparePredictions = (image: ImageItem, classes: AnnotationClass[], settings: EvaluationSettings): PredictionComparison => {
+  const { matches, groundTruth } = matchImage(image, classes, settings.iou);
+  const shown = matches.filter(match => match.prediction.score >= settings.confidence);
+  const found = new Set(shown.map(match => match.matchedId));
+  return {
+    matches: shown.map(({ prediction, matchedId }) => ({ prediction, matchedId })),
+    missedIds: groundTruth.filter(box => !found.has(box.id)).map(box => box.id),
+  };
+};
+
+// 101-point interpolated average precision, as in COCO
+const averagePrecision = (detections: { score: number; isMatch: boolean }[], groundTruth: number): number => {
+  const sorted = [...detections].sort((a, b) => b.score - a.score);
+  const precisions: number[] = [];
+  const recalls: number[] = [];
+  let truePositives = 0;
+  sorted.forEach((detection, i) => {
+    if (detection.isMatch) truePositives++;
+    precisions.push(truePositives / (i + 1));
+    recalls.push(truePositives / groundTruth);
+  });
+  // Each point takes the best precision reachable at its recall or beyond
+  for (let i = precisions.length - 2; i >= 0; i--) precisions[i] = Math.max(precisions[i], precisions[i + 1]);
+  let sum = 0;
+  for (let step = 0; step <= 100; step++) {
+    const index = recalls.findIndex(recall => recall >= step / 100);
+    if (index !== -1) sum += precisions[index];
+  }
+  return sum / 101;
+};
+
+export interface ClassMetrics {
+  classId: string;
+  name: string;
+  groundTruth: number;
+  predictions: number;
+  ap50: number | null;
+  ap5095: number | null;
+}
+
+// Metrics that cannot be computed (no predictions, no annotations) are null
+export interface EvaluationMetrics {
+  imageCount: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null;
+  recall: number | null;
+  map50: number | null;
+  map5095: number | null;
+  perClass: ClassMetrics[];
+}
+
+// Precision and recall use the settings' IoU and confidence; mAP uses every prediction, at IoU 0.5
+// and averaged over 0.5–0.95, counting only classes with annotations in `images`.
+export const evaluatePredictions = (images: ImageItem[], classes: AnnotationClass[], settings: EvaluationSettings): EvaluationMetrics => {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let groundTruthTotal = 0;
+  images.forEach(image => {
+    const { matches, groundTruth } = matchImage(image, classes, settings.iou);
+    groundTruthTotal += groundTruth.length;
+    matches.filter(match => match.prediction.score >= settings.confidence).forEach(match => {
+      if (match.matchedId) truePositives++;
+      else falsePositives++;
+    });
+  });
+
+  // Per IoU threshold and class: every prediction's score and whether it matched
+  const apByThreshold = MAP_IOU_THRESHOLDS.map(iou => {
+    const detections = new Map<string, { score: number; isMatch: boolean }[]>();
+    const groundTruth = new Map<string, number>();
+    images.forEach(image => {
+      const result = matchImage(image, classes, iou);
+      result.groundTruth.forEach(box => groundTruth.set(box.classId, (groundTruth.get(box.classId) ?? 0) + 1));
+      result.matches.forEach(match => {
+        if (!match.classId) return;
+        if (!detections.has(match.classId)) detections.set(match.classId, []);
+        detections.get(match.classId)!.push({ score: match.prediction.score, isMatch: !!match.matchedId });
+      });
+    });
+    return { detections, groundTruth };
+  });
+
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+  const perClass: ClassMetrics[] = classes.map((cls, classIndex) => {
+    const groundTruth = apByThreshold[0].groundTruth.get(cls.id) ?? 0;
+    const aps = groundTruth > 0
+      ? apByThreshold.map(({ detections }) => averagePrecision(detections.get(cls.id) ?? [], groundTruth))
+      : null;
+    return {
+      classId: cls.id,
+      name: cls.name,
+      groundTruth,
+      predictions: images.reduce((sum, image) => sum + (image.predictions ?? []).filter(p => p.classIndex === classIndex).length, 0),
+      ap50: aps ? aps[0] : null,
+      ap5095: aps ? mean(aps) : null,
+    };
+  });
+  const evaluated = perClass.filter(metrics => metrics.ap50 !== null);
+
+  return {
+    imageCount: images.length,
+    truePositives,
+    falsePositives,
+    falseNegatives: groundTruthTotal - truePositives,
+    precision: truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : null,
+    recall: groundTruthTotal > 0 ? truePositives / groundTruthTotal : null,
+    map50: mean(evaluated.map(metrics => metrics.ap50!)),
+    map5095: mean(evaluated.map(metrics => metrics.ap5095!)),
+    perClass,
+  };
+};
@@ -0,0 +1,16 @@
+export type OutputFormat = 'yolo' | 'voc' | 'yolo-obb' | 'dota' | 'yolo-seg' | 'yolo-pose';
+
+export interface OutputFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+  yolo: { label: 'YOLO Bounding Box Format', extension: 'txt', mimeType: 'text/plain' },
+  voc: { label: 'Pascal VOC XML', extension: 'xml', mimeType: 'application/xml' },
+  'yolo-obb': { label: 'YOLO Oriented Bounding Box', extension: 'txt', mimeType: 'text/plain' },
+  dota: { label: 'DOTA Oriented Box Text', extension: 'txt', mimeType: 'text/plain' },
+  'yolo-seg': { label: 'YOLO Segmentation', extension: 'txt', mimeType: 'text/plain' },
+  'yolo-pose': { label: 'YOLO Pose (Keypoints)', extension: 'txt', mimeType: 'text/plain' },
+};
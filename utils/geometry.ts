@@ -0,0 +1,187 @@
+import type { Point, Selection } from '../types';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Selections keep raw pointer coordinates (start may be right of/below end);
+// this normalizes them to an integer pixel rectangle.
+export const getSelectionRect = (selection: Selection): Rect => ({
+  x: Math.round(Math.min(selection.start.x, selection.end.x)),
+  y: Math.round(Math.min(selection.start.y, selection.end.y)),
+  width: Math.round(Math.abs(selection.start.x - selection.end.x)),
+  height: Math.round(Math.abs(selection.start.y - selection.end.y)),
+});
+
+// Smallest width and height a box can be edited to; smaller boxes are dropped when a drag ends
+export const MIN_BOX_SIZE = 2;
+
+// Keeps an edited rectangle inside the image and at least MIN_BOX_SIZE pixels in size.
+export const clampRect = (rect: Rect, imageWidth: number, imageHeight: number): Rect => {
+  const x = Math.max(0, Math.min(rect.x, imageWidth - MIN_BOX_SIZE));
+  const y = Math.max(0, Math.min(rect.y, imageHeight - MIN_BOX_SIZE));
+  return {
+    x,
+    y,
+    width: Math.max(MIN_BOX_SIZE, Math.min(rect.width, imageWidth - x)),
+    height: Math.max(MIN_BOX_SIZE, Math.min(rect.height, imageHeight - y)),
+  };
+};
+
+export const applyRect = (selection: Selection, rect: Rect): Selection => {
+  const start = { x: rect.x, y: rect.y };
+  const end = { x: rect.x + rect.width, y: rect.y + rect.height };
+  if (!selection.points) return { ...selection, start, end };
+
+  // Polygon vertices are mapped from the old bounding box onto the new one
+  const old = getSelectionRect(selection);
+  const scaleX = old.width > 0 ? rect.width / old.width : 1;
+  const scaleY = old.height > 0 ? rect.height / old.height : 1;
+  const minX = Math.min(selection.start.x, selection.end.x);
+  const minY = Math.min(selection.start.y, selection.end.y);
+  return {
+    ...selection,
+    start,
+    end,
+    points: selection.points.map(p => ({ x: rect.x + (p.x - minX) * scaleX, y: rect.y + (p.y - minY) * scaleY })),
+  };
+};
+
+export const getSelectionCenter = (selection: Selection): Point => ({
+  x: (selection.start.x + selection.end.x) / 2,
+  y: (selection.start.y + selection.end.y) / 2,
+});
+
+// Rotates `point` by `angle` degrees (clockwise on screen, since y points down) around `center`.
+export const rotatePoint = (point: Point, center: Point, angle: number): Point => {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+// Corners of the (possibly rotated) box, clockwise starting from the unrotated top-left.
+export const getSelectionCorners = (selection: Selection): Point[] => {
+  const minX = Math.min(selection.start.x, selection.end.x);
+  const maxX = Math.max(selection.start.x, selection.end.x);
+  const minY = Math.min(selection.start.y, selection.end.y);
+  const maxY = Math.max(selection.start.y, selection.end.y);
+  const corners = [
+    { x: minX, y: minY },
+    { x: maxX, y: minY },
+    { x: maxX, y: maxY },
+    { x: minX, y: maxY },
+  ];
+  if (!selection.angle) return corners;
+  const center = getSelectionCenter(selection);
+  return corners.map(corner => rotatePoint(corner, center, selection.angle!));
+};
+
+// Even-odd ray casting
+export const isPointInPolygon = (point: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isPointInSelection = (point: Point, selection: Selection): boolean => {
+  if (selection.points) return isPointInPolygon(point, selection.points);
+  const local = selection.angle ? rotatePoint(point, getSelectionCenter(selection), -selection.angle) : point;
+  return local.x >= Math.min(selection.start.x, selection.end.x) && local.x <= Math.max(selection.start.x, selection.end.x)
+    && local.y >= Math.min(selection.start.y, selection.end.y) && local.y <= Math.max(selection.start.y, selection.end.y);
+};
+
+// Axis-aligned envelope of the box, clamped to the image when dimensions are given.
+// Formats without rotation (YOLO, VOC, COCO, crops) export this rectangle.
+export const getBoundingRect = (selection: Selection, imageWidth = Infinity, imageHeight = Infinity): Rect => {
+  if (!selection.angle) return getSelectionRect(selection);
+  const corners = getSelectionCorners(selection);
+  const minX = Math.max(0, Math.min(...corners.map(c => c.x)));
+  const minY = Math.max(0, Math.min(...corners.map(c => c.y)));
+  const maxX = Math.min(imageWidth, Math.max(...corners.map(c => c.x)));
+  const maxY = Math.min(imageHeight, Math.max(...corners.map(c => c.y)));
+  return {
+    x: Math.round(minX),
+    y: Math.round(minY),
+    width: Math.round(maxX - minX),
+    height: Math.round(maxY - minY),
+  };
+};
+
+export const normalizeAngle = (angle: number) => {
+  const normalized = ((angle + 180) % 360 + 360) % 360 - 180;
+  return normalized === -180 ? 180 : normalized;
+};
+
+// Polygons keep `start`/`end` as their bounding box so every box-based feature keeps working.
+export const withPolygonPoints = (selection: Selection, points: Point[]): Selection => ({
+  ...selection,
+  points,
+  start: { x: Math.min(...points.map(p => p.x)), y: Math.min(...points.map(p => p.y)) },
+  end: { x: Math.max(...points.map(p => p.x)), y: Math.max(...points.map(p => p.y)) },
+});
+
+export const translateSelection = (selection: Selection, dx: number, dy: number): Selection => ({
+  ...selection,
+  start: { x: selection.start.x + dx, y: selection.start.y + dy },
+  end: { x: selection.end.x + dx, y: selection.end.y + dy },
+  ...(selection.points && { points: selection.points.map(p => ({ x: p.x + dx, y: p.y + dy })) }),
+  // Absent keypoints carry no position, so they stay put
+  ...(selection.keypoints && { keypoints: selection.keypoints.map(k => k.visibility ? { ...k, x: k.x + dx, y: k.y + dy } : k) }),
+});
+
+// Shoelace formula
+export const getPolygonArea = (points: Point[]): number => {
+  let area = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    area += (points[j].x + points[i].x) * (points[j].y - points[i].y);
+  }
+  return Math.abs(area / 2);
+};
+
+// Outline used by segmentation formats: the polygon itself, or the (rotated) box corners.
+export const getSelectionOutline = (selection: Selection): Point[] => selection.points ?? getSelectionCorners(selection);
+
+// Intersection over union of two axis-aligned rectangles, 0 when either is empty
+export const getRectIoU = (a: Rect, b: Rect): number => {
+  const overlapWidth = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const overlapHeight = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (overlapWidth <= 0 || overlapHeight <= 0) return 0;
+  const intersection = overlapWidth * overlapHeight;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+};
+
+// Envelope of the start/end corners of several selections, e.g. to move them as a group
+export const getGroupBounds = (selections: Selection[]): Rect => {
+  const xs = selections.flatMap(s => [s.start.x, s.end.x]);
+  const ys = selections.flatMap(s => [s.start.y, s.end.y]);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+// The part of the offset (dx, dy) that keeps `rect` inside the image
+export const clampOffset = (rect: Rect, dx: number, dy: number, imageWidth: number, imageHeight: number): Point => ({
+  x: Math.max(-rect.x, Math.min(dx, imageWidth - rect.x - rect.width)),
+  y: Math.max(-rect.y, Math.min(dy, imageHeight - rect.y - rect.height)),
+});
+
+// Maps a selection onto an image of another size, e.g. when pasting boxes between images
+export const scaleSelection = (selection: Selection, sx: number, sy: number): Selection => ({
+  ...selection,
+  start: { x: selection.start.x * sx, y: selection.start.y * sy },
+  end: { x: selection.end.x * sx, y: selection.end.y * sy },
+  ...(selection.points && { points: selection.points.map(p => ({ x: p.x * sx, y: p.y * sy })) }),
+  ...(selection.keypoints && { keypoints: selection.keypoints.map(k => ({ ...k, x: k.x * sx, y: k.y * sy })) }),
+});
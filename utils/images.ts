@@ -0,0 +1,60 @@
+import type { ImageDimensions, ImageItem, ImageSource, Selection } from '../types';
+import { getInitialStatus } from './review';
+
+let nextImageId = 0;
+
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+export const isLabelFile = (file: File) => file.name.toLowerCase().endsWith('.txt');
+
+export const isJsonFile = (file: File) => file.name.toLowerCase().endsWith('.json');
+
+export const getBaseName = (fileName: string) =>
+  fileName.includes('.') ? fileName.split('.').slice(0, -1).join('.') : fileName;
+
+export const compareFileNames = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+export const loadImageDimensions = (src: string): Promise<ImageDimensions> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ naturalWidth: img.naturalWidth, naturalHeight: img.naturalHeight });
+    img.onerror = () => reject(new Error('Could not decode image'));
+    img.src = src;
+  });
+
+export const createImageItem = async (blob: Blob, fileName: string, source: ImageSource | null = null): Promise<ImageItem> => {
+  const src = URL.createObjectURL(blob);
+  // Dimensions are read up front so exports can normalize boxes of images that were never opened.
+  const dimensions = await loadImageDimensions(src).catch(() => null);
+  return {
+    id: `img-${Date.now()}-${nextImageId++}`,
+    fileName,
+    src,
+    blob,
+    dimensions,
+    history: [[]],
+    historyIndex: 0,
+    status: 'unlabeled',
+    assignee: null,
+    comments: [],
+    source,
+  };
+};
+
+export const getCurrentSelections = (image: ImageItem): Selection[] => image.history[image.historyIndex] ?? [];
+
+// Records `selections` as a new undoable step, discarding any redo entries.
+export const pushSelections = (image: ImageItem, selections: Selection[]): ImageItem => {
+  const history = image.history.slice(0, image.historyIndex + 1);
+  history.push(selections);
+  // The first box moves an unlabeled image into progress
+  const status = image.status === 'unlabeled' && selections.length > 0 ? 'inProgress' : image.status;
+  return { ...image, history, historyIndex: history.length - 1, status };
+};
+
+// Starts a freshly opened image at `selections`, e.g. labels found next to it
+export const withLoadedSelections = (image: ImageItem, selections: Selection[]): ImageItem =>
+  ({ ...image, history: [selections], historyIndex: 0, status: getInitialStatus(selections) });
+
+export const releaseImageItem = (image: ImageItem) => URL.revokeObjectURL(image.src);
@@ -0,0 +1,130 @@
+export type ShortcutAction =
+  | 'undo'
+  | 'redo'
+  | 'deleteSelection'
+  | 'nextSelection'
+  | 'previousSelection'
+  | 'toggleLock'
+  | 'selectAll'
+  | 'copySelection'
+  | 'pasteSelection'
+  | 'duplicateSelection'
+  | 'nextImage'
+  | 'previousImage'
+  | 'showShortcuts'
+  | 'class1' | 'class2' | 'class3' | 'class4' | 'class5' | 'class6' | 'class7' | 'class8' | 'class9';
+
+// A binding is `[Mod+][Alt+][Shift+]Key`, where Mod is Ctrl, or Cmd on macOS. Letters are stored
+// upper-case; Shift is implied by symbols such as `?`, so it is only spelled out for letters and named keys.
+export type Keymap = Record<ShortcutAction, string>;
+
+export const CLASS_SHORTCUT_COUNT = 9;
+
+type ClassShortcutAction = Extract<ShortcutAction, `class${number}`>;
+
+const classActions = Array.from({ length: CLASS_SHORTCUT_COUNT }, (_, i) => `class${i + 1}` as ClassShortcutAction);
+
+export const DEFAULT_KEYMAP: Keymap = {
+  undo: 'Mod+Z',
+  redo: 'Mod+Y',
+  deleteSelection: 'Delete',
+  nextSelection: 'Tab',
+  previousSelection: 'Shift+Tab',
+  toggleLock: 'L',
+  selectAll: 'Mod+A',
+  copySelection: 'Mod+C',
+  pasteSelection: 'Mod+V',
+  duplicateSelection: 'Mod+D',
+  nextImage: 'N',
+  previousImage: 'P',
+  showShortcuts: '?',
+  ...Object.fromEntries(classActions.map((action, i) => [action, String(i + 1)])) as Record<ClassShortcutAction, string>,
+};
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  undo: 'Undo',
+  redo: 'Redo',
+  deleteSelection: 'Delete selected boxes',
+  nextSelection: 'Select next box',
+  previousSelection: 'Select previous box',
+  toggleLock: 'Lock / unlock selected boxes',
+  selectAll: 'Select all boxes',
+  copySelection: 'Copy selected boxes',
+  pasteSelection: 'Paste boxes (scaled to this image)',
+  duplicateSelection: 'Duplicate selected boxes',
+  nextImage: 'Next image',
+  previousImage: 'Previous image',
+  showShortcuts: 'Show keyboard shortcuts',
+  ...Object.fromEntries(classActions.map((action, i) => [action, `Assign class ${i + 1}`])) as Record<ClassShortcutAction, string>,
+};
+
+export const SHORTCUT_ACTIONS = Object.keys(DEFAULT_KEYMAP) as ShortcutAction[];
+
+// Keys handled directly by the canvas; listed in the cheat sheet but not remappable
+export const FIXED_SHORTCUTS: [string, string][] = [
+  ['Shift+Click', 'Add / remove a box from the selection'],
+  ['Shift+Drag', 'Select the boxes inside a rectangle'],
+  ['Arrows', 'Move selected boxes 1px (Shift: 10px)'],
+  ['Alt+Arrows', 'Resize active box'],
+  ['Space+Drag', 'Pan the image'],
+  ['Enter / Esc', 'Finish / cancel polygon'],
+  ['Backspace', 'Remove last polygon point'],
+];
+
+const STORAGE_KEY = 'bbox-annotator.keymap';
+
+export const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName));
+
+// Only changed bindings are stored, so new actions pick up their defaults
+export const loadKeymap = (): Keymap => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    const overrides = Object.fromEntries(
+      Object.entries(stored).filter(([action, binding]) => action in DEFAULT_KEYMAP && typeof binding === 'string')
+    );
+    return { ...DEFAULT_KEYMAP, ...overrides };
+  } catch {
+    return DEFAULT_KEYMAP;
+  }
+};
+
+export const saveKeymap = (keymap: Keymap) => {
+  const overrides = Object.fromEntries(SHORTCUT_ACTIONS.filter(action => keymap[action] !== DEFAULT_KEYMAP[action]).map(action => [action, keymap[action]]));
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.error('Could not save keyboard shortcuts:', error);
+  }
+};
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Shift', 'Alt', 'AltGraph', 'CapsLock'];
+
+// Returns the binding string for a key press, or null for a bare modifier
+export const getEventBinding = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  const isLetter = /^[A-Z]$/.test(key);
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Mod');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey && (isLetter || key.length > 1)) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+export const matchShortcut = (e: KeyboardEvent, keymap: Keymap): ShortcutAction | null => {
+  const binding = getEventBinding(e);
+  if (!binding) return null;
+  // Backspace is the delete key on Mac keyboards
+  const candidates = binding === 'Backspace' ? [binding, 'Delete'] : [binding];
+  return SHORTCUT_ACTIONS.find(action => candidates.includes(keymap[action])) ?? null;
+};
+
+export const getClassShortcutIndex = (action: ShortcutAction): number | null =>
+  action.startsWith('class') ? Number(action.slice(5)) - 1 : null;
+
+export const formatBinding = (binding: string): string =>
+  binding ? binding.replace('Mod', isMac() ? '⌘' : 'Ctrl') : 'Unassigned';
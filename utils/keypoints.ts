@@ -0,0 +1,86 @@
+import type { AnnotationClass, ImageDimensions, Keypoint, KeypointVisibility, Selection, SkeletonTemplate } from '../types';
+import { getBoundingRect } from './geometry';
+import { getClassIndex } from './classes';
+
+export const SKELETON_TEMPLATES: SkeletonTemplate[] = [
+  {
+    id: 'coco-17',
+    name: 'COCO person (17)',
+    keypoints: [
+      'nose', 'left_eye', 'right_eye', 'left_ear', 'right_ear',
+      'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow', 'left_wrist', 'right_wrist',
+      'left_hip', 'right_hip', 'left_knee', 'right_knee', 'left_ankle', 'right_ankle',
+    ],
+    skeleton: [
+      [15, 13], [13, 11], [16, 14], [14, 12], [11, 12], [5, 11], [6, 12], [5, 6], [5, 7], [6, 8],
+      [7, 9], [8, 10], [1, 2], [0, 1], [0, 2], [1, 3], [2, 4], [3, 5], [4, 6],
+    ],
+  },
+  {
+    id: 'ap10k-17',
+    name: 'AP-10K animal (17)',
+    keypoints: [
+      'left_eye', 'right_eye', 'nose', 'neck', 'root_of_tail',
+      'left_shoulder', 'left_elbow', 'left_front_paw', 'right_shoulder', 'right_elbow', 'right_front_paw',
+      'left_hip', 'left_knee', 'left_back_paw', 'right_hip', 'right_knee', 'right_back_paw',
+    ],
+    skeleton: [
+      [0, 1], [0, 2], [1, 2], [2, 3], [3, 4], [3, 5], [5, 6], [6, 7], [3, 8], [8, 9],
+      [9, 10], [4, 11], [11, 12], [12, 13], [4, 14], [14, 15], [15, 16],
+    ],
+  },
+];
+
+export const DEFAULT_SKELETON_ID = SKELETON_TEMPLATES[0].id;
+
+export const KEYPOINT_VISIBILITY_LABELS: Record<KeypointVisibility, string> = {
+  2: 'Visible',
+  1: 'Occluded',
+  0: 'Absent',
+};
+
+export const getSkeletonTemplate = (id: string): SkeletonTemplate =>
+  SKELETON_TEMPLATES.find(template => template.id === id) ?? SKELETON_TEMPLATES[0];
+
+// Pads or truncates a box's keypoints to the template length, so switching templates never
+// leaves exports with a ragged number of columns.
+export const getTemplateKeypoints = (selection: Selection, template: SkeletonTemplate): Keypoint[] =>
+  template.keypoints.map((_, i) => selection.keypoints?.[i] ?? { x: 0, y: 0, visibility: 0 });
+
+export const setKeypoint = (selection: Selection, template: SkeletonTemplate, index: number, keypoint: Keypoint): Selection => {
+  const keypoints = getTemplateKeypoints(selection, template);
+  keypoints[index] = keypoint.visibility ? keypoint : { x: 0, y: 0, visibility: 0 };
+  return { ...selection, keypoints };
+};
+
+export const countPlacedKeypoints = (keypoints: Keypoint[] | undefined): number =>
+  keypoints ? keypoints.filter(k => k.visibility > 0).length : 0;
+
+// Ultralytics YOLO pose: `class cx cy w h px1 py1 v1 ...`, everything but visibility normalized to 0-1.
+// Absent keypoints are written as `0 0 0`; boxes without keypoints still get the full column count.
+export const formatYoloPoseLabels = (
+  selections: Selection[],
+  classes: AnnotationClass[],
+  dimensions: ImageDimensions,
+  template: SkeletonTemplate,
+): string =>
+  selections
+    .map(selection => ({ selection, rect: getBoundingRect(selection, dimensions.naturalWidth, dimensions.naturalHeight) }))
+    .filter(({ rect }) => rect.width > 0 && rect.height > 0)
+    .map(({ selection, rect }) => {
+      const { naturalWidth, naturalHeight } = dimensions;
+      const clamp = (value: number) => Math.max(0, Math.min(value, 1));
+      const box = [
+        (rect.x + rect.width / 2) / naturalWidth,
+        (rect.y + rect.height / 2) / naturalHeight,
+        rect.width / naturalWidth,
+        rect.height / naturalHeight,
+      ].map(value => value.toFixed(6)).join(' ');
+      const keypoints = getTemplateKeypoints(selection, template)
+        .map(k => k.visibility
+          ? `${clamp(k.x / naturalWidth).toFixed(6)} ${clamp(k.y / naturalHeight).toFixed(6)} ${k.visibility}`
+          : '0 0 0')
+        .join(' ');
+      return `${getClassIndex(classes, selection.classId)} ${box} ${keypoints}`;
+    })
+    .join('\n');
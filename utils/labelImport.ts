@@ -0,0 +1,140 @@
+import type { AnnotationClass, ImageItem, Keypoint, Point, Prediction, Selection } from '../types';
+import { parseYoloLabels, LabelParseError } from './yolo';
+import { parseCocoDataset } from './coco';
+import { ensureClassCount, ensureClassNames } from './classes';
+import { withPolygonPoints } from './geometry';
+
+export interface ImportReport {
+  fileName: string;
+  errors: LabelParseError[];
+}
+
+export interface LabelImportResult {
+  selectionsByImage: Map<string, Selection[]>;
+  classes: AnnotationClass[];
+  reports: ImportReport[];
+  cocoImageIds?: Map<string, number>; // Image id → its id in the imported COCO file
+}
+
+const toSelections = (boxes: { start: Point; end: Point; classId: string; points?: Point[]; keypoints?: Keypoint[]; cocoId?: number }[], idPrefix: string): Selection[] =>
+  boxes.map((box, i) => {
+    const selection: Selection = {
+      id: `${idPrefix}-${i}`,
+      start: box.start,
+      end: box.end,
+      locked: false,
+      classId: box.classId,
+      ...(box.keypoints && { keypoints: box.keypoints }),
+      ...(box.cocoId !== undefined && { cocoId: box.cocoId }),
+    };
+    return box.points ? withPolygonPoints(selection, box.points) : selection;
+  });
+
+const fileError = (fileName: string, message: string): ImportReport => ({ fileName, errors: [{ line: 0, text: '', message }] });
+
+// Converts YOLO label files into selections for their target images, growing the class list
+// for any class index it has not seen yet. Lines that cannot be parsed end up in the reports.
+export const importYoloFiles = async (
+  pairs: { file: File; target: ImageItem | undefined }[],
+  classes: AnnotationClass[],
+): Promise<LabelImportResult> => {
+  const reports: ImportReport[] = [];
+  const parsed: { target: ImageItem; boxes: ReturnType<typeof parseYoloLabels>['boxes'] }[] = [];
+
+  for (const { file, target } of pairs) {
+    if (!target) {
+      reports.push(fileError(file.name, 'No image with a matching name was found'));
+      continue;
+    }
+    if (!target.dimensions) {
+      reports.push(fileError(file.name, `Dimensions of ${target.fileName} are unknown`));
+      continue;
+    }
+    const { boxes, errors } = parseYoloLabels(await file.text(), target.dimensions);
+    // A file where no line parses is more likely broken than a confirmed negative; keep the image's boxes
+    if (boxes.length === 0 && errors.length > 0) {
+      reports.push({ fileName: file.name, errors: [...errors, { line: 0, text: '', message: `No valid lines; the boxes of ${target.fileName} were left unchanged` }] });
+      continue;
+    }
+    parsed.push({ target, boxes });
+    if (errors.length > 0) reports.push({ fileName: file.name, errors });
+  }
+
+  let classCount = 0;
+  parsed.forEach(({ boxes }) => boxes.forEach(box => {
+    classCount = Math.max(classCount, box.classIndex + 1);
+  }));
+  const nextClasses = ensureClassCount(classes, classCount);
+
+  const idPrefix = Date.now().toString();
+  const selectionsByImage = new Map<string, Selection[]>();
+  parsed.forEach(({ target, boxes }, fileIndex) => {
+    selectionsByImage.set(target.id, toSelections(
+      boxes.map(box => ({ ...box, classId: nextClasses[box.classIndex].id })),
+      `${idPrefix}-${fileIndex}`,
+    ));
+  });
+  return { selectionsByImage, classes: nextClasses, reports };
+};
+
+// Reads YOLO prediction files (optionally with a confidence column) for their target images.
+// Unlike annotations they never add classes; an unknown class index simply matches nothing.
+export const importPredictionFiles = async (
+  pairs: { file: File; target: ImageItem | undefined }[],
+): Promise<{ predictionsByImage: Map<string, Prediction[]>; reports: ImportReport[] }> => {
+  const reports: ImportReport[] = [];
+  const predictionsByImage = new Map<string, Prediction[]>();
+  const idPrefix = `prediction-${Date.now()}`;
+
+  for (const [fileIndex, { file, target }] of pairs.entries()) {
+    if (!target) {
+      reports.push(fileError(file.name, 'No image with a matching name was found'));
+      continue;
+    }
+    if (!target.dimensions) {
+      reports.push(fileError(file.name, `Dimensions of ${target.fileName} are unknown`));
+      continue;
+    }
+    const { boxes, errors } = parseYoloLabels(await file.text(), target.dimensions, true);
+    predictionsByImage.set(target.id, boxes.map((box, i) => ({
+      id: `${idPrefix}-${fileIndex}-${i}`,
+      classIndex: box.classIndex,
+      start: box.start,
+      end: box.end,
+      score: box.score ?? 1,
+    })));
+    if (errors.length > 0) reports.push({ fileName: file.name, errors });
+  }
+  return { predictionsByImage, reports };
+};
+
+// Loads a COCO instances file onto the queued images with the same file name.
+// Entries for images that are not in the queue cannot be edited and are reported instead.
+export const importCocoFile = async (file: File, candidates: ImageItem[], classes: AnnotationClass[]): Promise<LabelImportResult> => {
+  const { boxesByFileName, imageIdsByFileName, categoryNames, errors } = parseCocoDataset(await file.text());
+  const nextClasses = ensureClassNames(classes, categoryNames);
+  const classIdByName = new Map(nextClasses.map(cls => [cls.name, cls.id]));
+
+  const idPrefix = Date.now().toString();
+  const selectionsByImage = new Map<string, Selection[]>();
+  const cocoImageIds = new Map<string, number>();
+  let missingCount = 0;
+  boxesByFileName.forEach((boxes, cocoFileName) => {
+    const baseFileName = cocoFileName.split('/').pop();
+    const target = candidates.find(image => image.fileName === baseFileName);
+    if (!target) {
+      missingCount++;
+      return;
+    }
+    cocoImageIds.set(target.id, imageIdsByFileName.get(cocoFileName)!);
+    selectionsByImage.set(target.id, toSelections(
+      boxes.map(box => ({ ...box, classId: classIdByName.get(box.className)! })),
+      `${idPrefix}-${selectionsByImage.size}`,
+    ));
+  });
+
+  if (missingCount > 0) {
+    errors.push({ line: 0, text: '', message: `${missingCount} image(s) listed in the file are not in the queue and were skipped` });
+  }
+  return { selectionsByImage, classes: nextClasses, reports: errors.length > 0 ? [{ fileName: file.name, errors }] : [], cocoImageIds };
+};
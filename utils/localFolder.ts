@@ -0,0 +1,126 @@
+import { StorageProvider, StoredLabel, getLabelPath, hasImageExtension } from './storage';
+
+// Parts of the File System Access API that the bundled DOM typings do not declare yet
+type PermissionMode = { mode: 'read' | 'readwrite' };
+interface DirectoryHandle extends FileSystemDirectoryHandle {
+  values: () => AsyncIterable<FileSystemHandle>;
+  queryPermission?: (descriptor: PermissionMode) => Promise<PermissionState>;
+  requestPermission?: (descriptor: PermissionMode) => Promise<PermissionState>;
+}
+
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: PermissionMode) => Promise<FileSystemDirectoryHandle>;
+  }
+}
+
+export const isLocalFolderSupported = () => typeof window !== 'undefined' && typeof window.showDirectoryPicker === 'function';
+
+// Provider ids end up in saved sessions and projects, so they are random rather than counted:
+// after a reload, a newly picked folder must not take over the id of one picked before. Picking
+// the same folder again in this tab reuses its id, so images opened from it resolve again.
+const pickedFolders: { handle: FileSystemDirectoryHandle; id: string }[] = [];
+
+const getFolderId = async (root: FileSystemDirectoryHandle): Promise<string> => {
+  for (const folder of pickedFolders) {
+    if (await folder.handle.isSameEntry(root)) return folder.id;
+  }
+  const id = `local-${crypto.randomUUID()}`;
+  pickedFolders.push({ handle: root, id });
+  return id;
+};
+
+// Paths are relative to the picked folder, using `/` and '' for the folder itself
+const splitPath = (path: string | null) => (path ?? '').split('/').filter(Boolean);
+
+const getDirectory = async (root: FileSystemDirectoryHandle, path: string | null, create = false): Promise<DirectoryHandle> => {
+  let dir = root;
+  for (const name of splitPath(path)) dir = await dir.getDirectoryHandle(name, { create });
+  return dir as DirectoryHandle;
+};
+
+const getFile = async (root: FileSystemDirectoryHandle, path: string): Promise<File> => {
+  const parts = splitPath(path);
+  const dir = await getDirectory(root, parts.slice(0, -1).join('/'));
+  return (await dir.getFileHandle(parts[parts.length - 1])).getFile();
+};
+
+const isNotFound = (e: unknown) => (e as DOMException)?.name === 'NotFoundError' || (e as DOMException)?.name === 'TypeMismatchError';
+
+const listFiles = async (root: FileSystemDirectoryHandle, path: string, accept: (name: string) => boolean): Promise<string[]> => {
+  let dir: DirectoryHandle;
+  try {
+    dir = await getDirectory(root, path);
+  } catch (e) {
+    if (isNotFound(e)) return [];
+    throw e;
+  }
+  const names: string[] = [];
+  for await (const handle of dir.values()) {
+    if (handle.kind === 'file' && accept(handle.name)) names.push(handle.name);
+  }
+  return names;
+};
+
+const toStoredLabel = (path: string, file: File): StoredLabel => ({ id: path, version: String(file.lastModified) });
+
+const isTextFile = (name: string) => name.toLowerCase().endsWith('.txt');
+
+// Browsers may drop the write grant (e.g. after a reload); asking again needs a user gesture,
+// which saving from a button click provides.
+const ensureWritable = async (root: DirectoryHandle) => {
+  const descriptor: PermissionMode = { mode: 'readwrite' };
+  if (!root.queryPermission || (await root.queryPermission(descriptor)) === 'granted') return;
+  if ((await root.requestPermission?.(descriptor)) !== 'granted') throw new Error(`No permission to write to ${root.name}`);
+};
+
+export const pickLocalFolder = async (): Promise<FileSystemDirectoryHandle | null> => {
+  try {
+    return await window.showDirectoryPicker!({ mode: 'readwrite' });
+  } catch (e) {
+    if ((e as DOMException).name === 'AbortError') return null;
+    throw e;
+  }
+};
+
+// Reads and writes inside a folder the user picked; label files land directly in it.
+export const createLocalFolderProvider = async (root: FileSystemDirectoryHandle): Promise<StorageProvider> => ({
+  id: await getFolderId(root),
+  kind: 'local',
+  name: `${root.name} (local folder)`,
+  listImages: async (folderId) => {
+    const folder = splitPath(folderId).join('/');
+    return (await listFiles(root, folder, hasImageExtension)).map(name => ({ id: getLabelPath(name, folder), name, folderId: folder }));
+  },
+  readImage: (entry) => getFile(root, entry.id),
+  listLabels: async (folderId, subfolder) => {
+    const labels = new Map<string, StoredLabel>();
+    for (const relative of subfolder ? ['', subfolder] : ['']) {
+      const dirPath = splitPath(`${folderId ?? ''}/${relative}`).join('/');
+      for (const name of await listFiles(root, dirPath, isTextFile)) {
+        const path = getLabelPath(name, dirPath);
+        labels.set(getLabelPath(name, relative), toStoredLabel(path, await getFile(root, path)));
+      }
+    }
+    return labels;
+  },
+  readLabel: async (label) => (await getFile(root, label.id)).text(),
+  findLabel: async (folderId, subfolder, name) => {
+    const path = splitPath(`${folderId ?? ''}/${subfolder}/${name}`).join('/');
+    try {
+      return toStoredLabel(path, await getFile(root, path));
+    } catch (e) {
+      if (isNotFound(e)) return null;
+      throw e;
+    }
+  },
+  writeLabel: async (folderId, subfolder, name, content) => {
+    await ensureWritable(root as DirectoryHandle);
+    const dir = await getDirectory(root, `${folderId ?? ''}/${subfolder}`, true);
+    const handle = await dir.getFileHandle(name, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(content);
+    await writable.close();
+    return toStoredLabel(splitPath(`${folderId ?? ''}/${subfolder}/${name}`).join('/'), await handle.getFile());
+  },
+});
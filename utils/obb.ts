@@ -0,0 +1,32 @@
+import type { AnnotationClass, ImageDimensions, Selection } from '../types';
+import { getSelectionCorners } from './geometry';
+import { getClassById, getClassIndex } from './classes';
+
+const hasArea = (selection: Selection) =>
+  Math.abs(selection.start.x - selection.end.x) > 0 && Math.abs(selection.start.y - selection.end.y) > 0;
+
+const clamp = (value: number) => Math.max(0, Math.min(value, 1));
+
+// Ultralytics YOLO-OBB: `class x1 y1 x2 y2 x3 y3 x4 y4`, corners normalized to 0-1.
+// Corners of boxes rotated past the image edge are clamped, since YOLO rejects values outside 0-1.
+export const formatYoloObbLabels = (selections: Selection[], classes: AnnotationClass[], dimensions: ImageDimensions): string =>
+  selections
+    .filter(hasArea)
+    .map(selection => {
+      const corners = getSelectionCorners(selection)
+        .map(({ x, y }) => `${clamp(x / dimensions.naturalWidth).toFixed(6)} ${clamp(y / dimensions.naturalHeight).toFixed(6)}`)
+        .join(' ');
+      return `${getClassIndex(classes, selection.classId)} ${corners}`;
+    })
+    .join('\n');
+
+// DOTA: `x1 y1 x2 y2 x3 y3 x4 y4 category difficult` in pixels. Category names cannot contain spaces.
+export const formatDotaLabels = (selections: Selection[], classes: AnnotationClass[]): string =>
+  selections
+    .filter(hasArea)
+    .map(selection => {
+      const corners = getSelectionCorners(selection).map(({ x, y }) => `${x.toFixed(1)} ${y.toFixed(1)}`).join(' ');
+      const name = (getClassById(classes, selection.classId)?.name ?? classes[0]?.name ?? 'object').replace(/\s+/g, '-');
+      return `${corners} ${name} ${selection.difficult ? 1 : 0}`;
+    })
+    .join('\n');
@@ -0,0 +1,327 @@
+import JSZip from 'jszip';
+import type { AnnotationClass, AnnotationTool, ImageDimensions, ImageItem, ImageSource, ImageStatus, Keypoint, Point, ReviewComment, Selection } from '../types';
+import type { LabelParseError } from './yolo';
+import { OUTPUT_FORMATS, OutputFormat } from './formats';
+import { DEFAULT_CLASSES } from './classes';
+import { DEFAULT_SKELETON_ID, SKELETON_TEMPLATES } from './keypoints';
+import { getCurrentSelections } from './images';
+import { createUniqueNamer } from './datasetExport';
+import { fromDriveFileMeta } from './storage';
+import { getInitialStatus, getLegacyStatus, isImageStatus } from './review';
+
+export const PROJECT_FORMAT = 'bbox-annotator-project';
+export const PROJECT_VERSION = 3;
+export const PROJECT_JSON_NAME = 'project.json';
+const PROJECT_IMAGE_FOLDER = 'images';
+
+const ANNOTATION_TOOLS: AnnotationTool[] = ['box', 'obb', 'polygon', 'keypoint'];
+
+export interface ProjectSettings {
+  outputFormat: OutputFormat;
+  tool: AnnotationTool;
+  skeletonId: string;
+  activeClassId: string | null;
+}
+
+export interface ProjectImage {
+  id: string;
+  fileName: string;
+  path: string | null; // Entry inside the project zip; null when images are referenced only
+  dimensions: ImageDimensions | null;
+  cocoId?: number;
+  status: ImageStatus;
+  assignee: string | null;
+  comments: ReviewComment[];
+  source: ImageSource | null;
+  selections: Selection[];
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  settings: ProjectSettings;
+  classes: AnnotationClass[];
+  currentImageIndex: number;
+  images: ProjectImage[];
+}
+
+export interface ProjectLoadResult {
+  project: ProjectFile | null; // null when the file cannot be used at all
+  errors: LabelParseError[];
+  imageBlobs: Map<string, Blob>; // Keyed by `ProjectImage.path`
+}
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  outputFormat: 'yolo',
+  tool: 'box',
+  skeletonId: DEFAULT_SKELETON_ID,
+  activeClassId: null,
+};
+
+// Only the current step of each image's history is saved; undo history stays with the session.
+export const buildProjectFile = (
+  images: ImageItem[],
+  classes: AnnotationClass[],
+  settings: ProjectSettings,
+  currentImageIndex: number,
+  includeImages: boolean,
+): ProjectFile => {
+  const uniqueName = createUniqueNamer();
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    settings,
+    classes,
+    currentImageIndex,
+    images: images.map(image => ({
+      id: image.id,
+      fileName: image.fileName,
+      path: includeImages ? `${PROJECT_IMAGE_FOLDER}/${uniqueName(image.fileName)}` : null,
+      dimensions: image.dimensions,
+      cocoId: image.cocoId,
+      status: image.status,
+      assignee: image.assignee,
+      comments: image.comments,
+      source: image.source,
+      selections: getCurrentSelections(image),
+    })),
+  };
+};
+
+export const buildProjectZip = async (project: ProjectFile, images: ImageItem[]): Promise<Blob> => {
+  const zip = new JSZip();
+  zip.file(PROJECT_JSON_NAME, JSON.stringify(project, null, 2));
+  project.images.forEach((entry, i) => {
+    // Images are already compressed; storing them keeps zipping fast
+    if (entry.path) zip.file(entry.path, images[i].blob, { compression: 'STORE' });
+  });
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+// --- Migrations ---
+// Each entry upgrades a project from `version` to `version + 1`. When the schema changes,
+// bump PROJECT_VERSION and add a step here instead of teaching the validator old layouts.
+// New optional `Selection` fields need no step: missing fields are simply left undefined.
+type RawProject = Record<string, unknown>;
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+  // v2: Drive-only `driveFileMeta` became a provider-neutral `source`
+  1: project => ({
+    ...project,
+    images: Array.isArray(project.images)
+      ? project.images.map((image: unknown) => {
+        if (!isObject(image)) return image;
+        const { driveFileMeta, ...rest } = image;
+        return { ...rest, source: fromDriveFileMeta(driveFileMeta) };
+      })
+      : project.images,
+  }),
+  // v3: the done flag became a review status, with an assignee and comments
+  2: project => ({
+    ...project,
+    images: Array.isArray(project.images)
+      ? project.images.map((image: unknown) => {
+        if (!isObject(image)) return image;
+        const { done, ...rest } = image;
+        const selections = Array.isArray(image.selections) ? image.selections : [];
+        return { ...rest, status: getLegacyStatus(done, selections), assignee: null, comments: [] };
+      })
+      : project.images,
+  }),
+};
+
+const migrateProject = (raw: RawProject, fromVersion: number): RawProject => {
+  let project = raw;
+  for (let version = fromVersion; version < PROJECT_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from project version ${version}`);
+    project = { ...migrate(project), version: version + 1 };
+  }
+  return project;
+};
+
+// --- Validation ---
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isPoint = (value: unknown): value is Point => isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+const isAnnotationTool = (value: unknown): value is AnnotationTool => ANNOTATION_TOOLS.some(tool => tool === value);
+// Own keys only, so prototype names such as "toString" are not taken for a format
+const isOutputFormat = (value: unknown): value is OutputFormat => isString(value) && Object.hasOwn(OUTPUT_FORMATS, value);
+
+const isKeypoint = (value: unknown): value is Keypoint =>
+  isPoint(value) && [0, 1, 2].includes((value as Keypoint).visibility);
+
+// Returns the problem with a selection, or null if it is valid
+const findSelectionProblem = (value: unknown): string | null => {
+  if (!isObject(value)) return 'is not an object';
+  if (!isString(value.id)) return 'has no string "id"';
+  if (!isPoint(value.start) || !isPoint(value.end)) return 'needs numeric "start" and "end" points';
+  if (!isOptional(value.locked, isBoolean)) return '"locked" must be true or false';
+  if (!isOptional(value.classId, isString)) return '"classId" must be a string';
+  if (!isOptional(value.difficult, isBoolean) || !isOptional(value.truncated, isBoolean)) return '"difficult" and "truncated" must be true or false';
+  if (!isOptional(value.angle, isFiniteNumber)) return '"angle" must be a number';
+  if (!isOptional(value.points, v => Array.isArray(v) && v.length >= 3 && v.every(isPoint))) return '"points" must list at least 3 points';
+  if (!isOptional(value.keypoints, v => Array.isArray(v) && v.every(isKeypoint))) return '"keypoints" must be {x, y, visibility: 0|1|2} entries';
+  if (!isOptional(value.cocoId, isFiniteNumber)) return '"cocoId" must be a number';
+  return null;
+};
+
+const isComment = (value: unknown): value is ReviewComment =>
+  isObject(value) && isString(value.id) && isString(value.author) && isString(value.text) && isString(value.createdAt)
+  && (value.selectionId === null || isString(value.selectionId)) && isBoolean(value.resolved);
+
+const STORAGE_KINDS = ['drive', 'local', 's3'];
+
+const isImageSource = (value: unknown): value is ImageSource =>
+  isObject(value) && isString(value.kind) && STORAGE_KINDS.includes(value.kind) && isString(value.providerId) && isString(value.id) && isString(value.name)
+  && (value.folderId === null || isString(value.folderId))
+  && isOptional(value.labelVersions, v => isObject(v) && Object.values(v).every(isString));
+
+const isDimensions = (value: unknown): value is ImageDimensions =>
+  isObject(value) && isFiniteNumber(value.naturalWidth) && isFiniteNumber(value.naturalHeight);
+
+// Structural problems in the file header are fatal; bad classes, images or selections are
+// dropped individually so the rest of the project still opens.
+export const validateProject = (raw: unknown): { project: ProjectFile | null; errors: LabelParseError[] } => {
+  const errors: LabelParseError[] = [];
+  const report = (message: string, text = '') => errors.push({ line: 0, text, message });
+  const fail = (message: string) => {
+    report(message);
+    return { project: null, errors };
+  };
+
+  if (!isObject(raw) || raw.format !== PROJECT_FORMAT) return fail('Not an annotation project file');
+  if (!isInteger(raw.version) || raw.version < 1) return fail('Missing or invalid project "version"');
+  if (raw.version > PROJECT_VERSION) {
+    return fail(`Project version ${raw.version} was saved by a newer version of this tool (supports up to ${PROJECT_VERSION})`);
+  }
+
+  let data: RawProject;
+  try {
+    data = migrateProject(raw, raw.version);
+  } catch (e) {
+    return fail((e as Error).message);
+  }
+  if (!Array.isArray(data.classes) || !Array.isArray(data.images)) return fail('Missing "classes" or "images" array');
+
+  const classes: AnnotationClass[] = [];
+  data.classes.forEach((cls: unknown, i: number) => {
+    if (isObject(cls) && isString(cls.id) && isString(cls.name) && isString(cls.color) && !classes.some(c => c.id === cls.id)) {
+      classes.push({ id: cls.id, name: cls.name, color: cls.color });
+    } else {
+      report('Invalid or duplicate class was skipped', `classes[${i}]`);
+    }
+  });
+  if (classes.length === 0) {
+    report('Project has no valid classes; using the default class list');
+    classes.push(...DEFAULT_CLASSES);
+  }
+  const classIds = new Set(classes.map(cls => cls.id));
+
+  const images: ProjectImage[] = [];
+  data.images.forEach((image: unknown, i: number) => {
+    const path = `images[${i}]`;
+    if (!isObject(image) || !isString(image.fileName) || !Array.isArray(image.selections)) {
+      report('Image entry needs a "fileName" and a "selections" array and was skipped', path);
+      return;
+    }
+    const selections: Selection[] = [];
+    image.selections.forEach((selection: unknown, j: number) => {
+      const problem = findSelectionProblem(selection);
+      if (problem) {
+        report(`Selection ${problem} and was skipped`, `${path}.selections[${j}]`);
+        return;
+      }
+      const valid = selection as Selection;
+      if (valid.classId !== undefined && !classIds.has(valid.classId)) {
+        report(`Unknown class "${valid.classId}"; the selection is now unassigned`, `${path}.selections[${j}]`);
+        const { classId, ...rest } = valid;
+        selections.push(rest);
+        return;
+      }
+      selections.push(valid);
+    });
+    const comments: ReviewComment[] = [];
+    (Array.isArray(image.comments) ? image.comments : []).forEach((comment: unknown, j: number) => {
+      if (isComment(comment)) comments.push(comment);
+      else report('Comment needs "id", "author", "text", "createdAt", "selectionId" and "resolved" and was skipped', `${path}.comments[${j}]`);
+    });
+    images.push({
+      id: isString(image.id) ? image.id : `${path}`,
+      fileName: image.fileName,
+      path: isString(image.path) ? image.path : null,
+      dimensions: isDimensions(image.dimensions) ? image.dimensions : null,
+      ...(isFiniteNumber(image.cocoId) && { cocoId: image.cocoId }),
+      status: isImageStatus(image.status) ? image.status : getInitialStatus(selections),
+      assignee: isString(image.assignee) ? image.assignee : null,
+      comments,
+      source: isImageSource(image.source) ? image.source : null,
+      selections,
+    });
+  });
+
+  const settings: RawProject = isObject(data.settings) ? data.settings : {};
+  return {
+    project: {
+      format: PROJECT_FORMAT,
+      version: PROJECT_VERSION,
+      savedAt: isString(data.savedAt) ? data.savedAt : '',
+      settings: {
+        outputFormat: isOutputFormat(settings.outputFormat) ? settings.outputFormat : DEFAULT_PROJECT_SETTINGS.outputFormat,
+        tool: isAnnotationTool(settings.tool) ? settings.tool : DEFAULT_PROJECT_SETTINGS.tool,
+        skeletonId: isString(settings.skeletonId) && SKELETON_TEMPLATES.some(t => t.id === settings.skeletonId) ? settings.skeletonId : DEFAULT_PROJECT_SETTINGS.skeletonId,
+        activeClassId: isString(settings.activeClassId) && classIds.has(settings.activeClassId) ? settings.activeClassId : classes[0].id,
+      },
+      classes,
+      currentImageIndex: isInteger(data.currentImageIndex)
+        ? Math.max(0, Math.min(data.currentImageIndex, images.length - 1))
+        : 0,
+      images,
+    },
+    errors,
+  };
+};
+
+const isZipFile = (fileName: string) => fileName.toLowerCase().endsWith('.zip');
+
+// Reads a plain project.json or a project zip (project.json plus the images it references).
+export const readProjectFile = async (file: Blob, fileName: string): Promise<ProjectLoadResult> => {
+  const imageBlobs = new Map<string, Blob>();
+  const fail = (message: string): ProjectLoadResult => ({ project: null, errors: [{ line: 0, text: '', message }], imageBlobs });
+
+  let text: string;
+  let zip: JSZip | null = null;
+  if (isZipFile(fileName)) {
+    try {
+      zip = await JSZip.loadAsync(file);
+    } catch (e) {
+      return fail(`Not a valid zip file: ${(e as Error).message}`);
+    }
+    const entry = zip.file(PROJECT_JSON_NAME);
+    if (!entry) return fail(`The zip does not contain ${PROJECT_JSON_NAME}`);
+    text = await entry.async('string');
+  } else {
+    text = await file.text();
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return fail(`Not valid JSON: ${(e as Error).message}`);
+  }
+
+  const { project, errors } = validateProject(raw);
+  if (project && zip) {
+    for (const image of project.images) {
+      const entry = image.path ? zip.file(image.path) : null;
+      if (entry) imageBlobs.set(image.path!, await entry.async('blob'));
+    }
+  }
+  return { project, errors, imageBlobs };
+};
@@ -0,0 +1,113 @@
+import type { AnnotationClass, ImageItem } from '../types';
+import { getBoundingRect, getRectIoU } from './geometry';
+import { getCurrentSelections } from './images';
+import { isLabelingFinished } from './review';
+
+export type QualityCheck = 'duplicate' | 'minSize' | 'aspectRatio' | 'border' | 'unlabeledImage' | 'unassigned';
+export type IssueSeverity = 'error' | 'warning';
+// What exports do when the images they include have errors
+export type ExportPolicy = 'ignore' | 'warn' | 'block';
+
+export const QUALITY_CHECKS: Record<QualityCheck, { label: string; severity: IssueSeverity }> = {
+  duplicate: { label: 'Near-duplicate boxes', severity: 'error' },
+  minSize: { label: 'Boxes below the minimum size', severity: 'error' },
+  unassigned: { label: 'Boxes without a class', severity: 'error' },
+  aspectRatio: { label: 'Extreme aspect ratios', severity: 'warning' },
+  border: { label: 'Boxes touching the image border', severity: 'warning' },
+  unlabeledImage: { label: 'Images without boxes', severity: 'warning' },
+};
+
+export interface QualitySettings {
+  checks: Record<QualityCheck, boolean>;
+  duplicateIoU: number; // Same-class boxes overlapping at least this much are flagged
+  minSize: number; // Pixels, applied to both width and height
+  maxAspectRatio: number; // Longer side over shorter side
+  borderMargin: number; // Pixels from the image edge that count as touching it
+  exportPolicy: ExportPolicy;
+}
+
+export const DEFAULT_QUALITY_SETTINGS: QualitySettings = {
+  checks: { duplicate: true, minSize: true, unassigned: true, aspectRatio: true, border: false, unlabeledImage: true },
+  duplicateIoU: 0.9,
+  minSize: 4,
+  maxAspectRatio: 10,
+  borderMargin: 0,
+  exportPolicy: 'warn',
+};
+
+const QUALITY_SETTINGS_STORAGE_KEY = 'bbox-annotator.quality';
+
+export const loadQualitySettings = (): QualitySettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(QUALITY_SETTINGS_STORAGE_KEY) ?? '{}');
+    return {
+      ...DEFAULT_QUALITY_SETTINGS,
+      ...stored,
+      checks: { ...DEFAULT_QUALITY_SETTINGS.checks, ...stored.checks },
+    };
+  } catch {
+    return DEFAULT_QUALITY_SETTINGS;
+  }
+};
+
+export const saveQualitySettings = (settings: QualitySettings) => {
+  localStorage.setItem(QUALITY_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export interface QualityIssue {
+  id: string;
+  check: QualityCheck;
+  severity: IssueSeverity;
+  imageId: string;
+  selectionId: string | null; // null for issues with the whole image
+  message: string;
+}
+
+// Boxes are numbered from 1 in list order, as in Selection Details. The image size is read on
+// import; the border check skips the rare image whose size could not be read.
+export const findQualityIssues = (images: ImageItem[], classes: AnnotationClass[], settings: QualitySettings): QualityIssue[] => {
+  const issues: QualityIssue[] = [];
+  const { checks } = settings;
+
+  images.forEach(image => {
+    const selections = getCurrentSelections(image);
+    const add = (check: QualityCheck, selectionId: string | null, message: string) => issues.push({
+      id: `${image.id}-${selectionId ?? 'image'}-${check}`,
+      check,
+      severity: QUALITY_CHECKS[check].severity,
+      imageId: image.id,
+      selectionId,
+      message,
+    });
+
+    // Images marked labeled or approved without boxes are treated as confirmed negatives
+    if (checks.unlabeledImage && selections.length === 0 && !isLabelingFinished(image.status)) add('unlabeledImage', null, 'No boxes');
+
+    const width = image.dimensions?.naturalWidth ?? Infinity;
+    const height = image.dimensions?.naturalHeight ?? Infinity;
+    const rects = selections.map(selection => getBoundingRect(selection, width, height));
+
+    selections.forEach((selection, i) => {
+      const name = `Box ${i + 1}`;
+      const rect = rects[i];
+      if (checks.unassigned && !classes.some(cls => cls.id === selection.classId)) add('unassigned', selection.id, `${name} has no class`);
+      if (checks.minSize && (rect.width < settings.minSize || rect.height < settings.minSize)) {
+        add('minSize', selection.id, `${name} is ${rect.width}×${rect.height}px, below ${settings.minSize}px`);
+      }
+      const ratio = Math.max(rect.width, rect.height) / Math.max(1, Math.min(rect.width, rect.height));
+      if (checks.aspectRatio && ratio > settings.maxAspectRatio) add('aspectRatio', selection.id, `${name} has an aspect ratio of ${ratio.toFixed(1)}:1`);
+      if (checks.border && image.dimensions) {
+        const margin = settings.borderMargin;
+        if (rect.x <= margin || rect.y <= margin || rect.x + rect.width >= width - margin || rect.y + rect.height >= height - margin) {
+          add('border', selection.id, `${name} touches the image border`);
+        }
+      }
+      if (checks.duplicate) {
+        // Each pair is reported once, on the later box
+        const original = selections.findIndex((other, j) => j < i && other.classId === selection.classId && getRectIoU(rects[j], rect) >= settings.duplicateIoU);
+        if (original !== -1) add('duplicate', selection.id, `${name} duplicates box ${original + 1} (IoU ${getRectIoU(rects[original], rect).toFixed(2)})`);
+      }
+    });
+  });
+  return issues;
+};
@@ -0,0 +1,52 @@
+import type { ImageItem, ImageStatus, ReviewComment, Selection } from '../types';
+
+// In workflow order: annotators move images to "labeled", reviewers approve them or send them back
+export const IMAGE_STATUSES: Record<ImageStatus, { label: string; color: string }> = {
+  unlabeled: { label: 'Unlabeled', color: '#6b7280' },
+  inProgress: { label: 'In progress', color: '#38bdf8' },
+  labeled: { label: 'Labeled', color: '#a78bfa' },
+  needsFix: { label: 'Needs fix', color: '#f97316' },
+  approved: { label: 'Approved', color: '#22c55e' },
+};
+
+export const IMAGE_STATUS_ORDER = Object.keys(IMAGE_STATUSES) as ImageStatus[];
+
+export const isImageStatus = (value: unknown): value is ImageStatus =>
+  typeof value === 'string' && IMAGE_STATUS_ORDER.includes(value as ImageStatus);
+
+// Labeled and approved images are finished; an image without boxes is then a confirmed negative
+export const isLabelingFinished = (status: ImageStatus) => status === 'labeled' || status === 'approved';
+
+// Images with boxes start out in progress, e.g. when labels are loaded along with them
+export const getInitialStatus = (selections: Selection[]): ImageStatus => selections.length > 0 ? 'inProgress' : 'unlabeled';
+
+// Sessions and projects saved before the review workflow only had a done flag
+export const getLegacyStatus = (done: unknown, selections: Selection[]): ImageStatus =>
+  done === true ? 'labeled' : getInitialStatus(selections);
+
+let nextCommentId = 0;
+
+export const createComment = (author: string, text: string, selectionId: string | null): ReviewComment => ({
+  id: `comment-${Date.now()}-${nextCommentId++}`,
+  author,
+  text,
+  createdAt: new Date().toISOString(),
+  selectionId,
+  resolved: false,
+});
+
+// Comments keep the id of their box, so undoing a deletion restores the pin; while the box is
+// gone the comment is treated as one about the whole image
+export const getPinnedSelectionId = (comment: ReviewComment, selections: Selection[]): string | null =>
+  comment.selectionId !== null && selections.some(selection => selection.id === comment.selectionId) ? comment.selectionId : null;
+
+export const getOpenComments = (image: ImageItem) => image.comments.filter(comment => !comment.resolved);
+
+const REVIEWER_STORAGE_KEY = 'bbox-annotator.reviewer';
+
+// Name shown on comments written in this browser
+export const loadReviewerName = () => localStorage.getItem(REVIEWER_STORAGE_KEY) ?? '';
+
+export const saveReviewerName = (name: string) => {
+  localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+};
@@ -0,0 +1,216 @@
+import { StorageProvider, StoredLabel, getLabelPath, hasImageExtension } from './storage';
+
+const S3_CONFIG_STORAGE_KEY = 'bbox-annotator.s3';
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+// Path-style addressing (`endpoint/bucket/key`) works with both AWS and MinIO. The bucket needs a
+// CORS rule allowing this origin, the Authorization/x-amz-* headers and exposing ETag.
+export interface S3Config {
+  endpoint: string; // e.g. http://localhost:9000 for a local MinIO
+  region: string;
+  bucket: string;
+  prefix: string; // Folder of images inside the bucket, e.g. `datasets/cats/`
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export const DEFAULT_S3_CONFIG: S3Config = {
+  endpoint: 'http://localhost:9000',
+  region: 'us-east-1',
+  bucket: '',
+  prefix: '',
+  accessKeyId: '',
+  secretAccessKey: '',
+};
+
+// The secret key is never written to localStorage
+export const loadS3Config = (): S3Config => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(S3_CONFIG_STORAGE_KEY) ?? '{}');
+    return { ...DEFAULT_S3_CONFIG, ...stored, secretAccessKey: '' };
+  } catch {
+    return DEFAULT_S3_CONFIG;
+  }
+};
+
+export const saveS3Config = ({ secretAccessKey, ...config }: S3Config) => {
+  localStorage.setItem(S3_CONFIG_STORAGE_KEY, JSON.stringify(config));
+};
+
+export class S3Error extends Error {
+  status: number; // 0 for network failures
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'S3Error';
+    this.status = status;
+  }
+}
+
+// --- Signature V4 ---
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256Hex = async (text: string) => toHex(await crypto.subtle.digest('SHA-256', encoder.encode(text)));
+
+const hmac = async (key: BufferSource, text: string): Promise<ArrayBuffer> => {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(text));
+};
+
+// SigV4 wants RFC 3986 encoding, which escapes a few characters encodeURIComponent leaves alone
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodeKey = (key: string) => key.split('/').map(encodeRfc3986).join('/');
+
+export interface SignedRequest {
+  url: string;
+  headers: Record<string, string>; // Without `host`, which the browser sets itself
+}
+
+// Signs a request for `path` (already encoded, starting with `/`) relative to the endpoint.
+export const signS3Request = async (
+  config: Pick<S3Config, 'endpoint' | 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  method: string,
+  path: string,
+  query: Record<string, string> = {},
+  headers: Record<string, string> = {},
+  payloadHash = UNSIGNED_PAYLOAD,
+  date = new Date(),
+): Promise<SignedRequest> => {
+  const endpoint = new URL(config.endpoint);
+  const canonicalPath = `${endpoint.pathname.replace(/\/+$/, '')}${path}`;
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const day = amzDate.slice(0, 8);
+  const scope = `${day}/${config.region}/s3/aws4_request`;
+
+  const signed: Record<string, string> = { host: endpoint.host, 'x-amz-content-sha256': payloadHash, 'x-amz-date': amzDate };
+  Object.entries(headers).forEach(([name, value]) => { signed[name.toLowerCase()] = value.trim(); });
+  const headerNames = Object.keys(signed).sort();
+  const canonicalQuery = Object.keys(query).sort()
+    .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+    .join('&');
+  const canonicalRequest = [
+    method,
+    canonicalPath,
+    canonicalQuery,
+    headerNames.map(name => `${name}:${signed[name]}\n`).join(''),
+    headerNames.join(';'),
+    payloadHash,
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+  let signingKey = await hmac(encoder.encode(`AWS4${config.secretAccessKey}`), day);
+  for (const part of [config.region, 's3', 'aws4_request']) signingKey = await hmac(signingKey, part);
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  const { host, ...requestHeaders } = signed;
+  return {
+    url: `${endpoint.origin}${canonicalPath}${canonicalQuery ? `?${canonicalQuery}` : ''}`,
+    headers: {
+      ...requestHeaders,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`,
+    },
+  };
+};
+
+// --- Requests ---
+const readS3Error = async (res: Response): Promise<string> => {
+  const text = await res.text().catch(() => '');
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  const code = xml.querySelector('Code')?.textContent;
+  const message = xml.querySelector('Message')?.textContent;
+  return [code, message].filter(Boolean).join(': ') || res.statusText || `HTTP ${res.status}`;
+};
+
+const s3Fetch = async (
+  config: S3Config,
+  method: string,
+  key: string | null,
+  options: { query?: Record<string, string>; headers?: Record<string, string>; body?: BodyInit; allowNotFound?: boolean } = {},
+): Promise<Response | null> => {
+  const path = `/${encodeRfc3986(config.bucket)}${key === null ? '' : `/${encodeKey(key)}`}`;
+  const { url, headers } = await signS3Request(config, method, path, options.query, options.headers);
+  let res: Response;
+  try {
+    res = await fetch(url, { method, headers, body: options.body });
+  } catch (e) {
+    // CORS rejections surface as network errors too
+    throw new S3Error(`Network error: ${(e as Error).message}. Check the endpoint and the bucket's CORS rules.`, 0);
+  }
+  if (res.status === 404 && options.allowNotFound) return null;
+  if (!res.ok) throw new S3Error(await readS3Error(res), res.status);
+  return res;
+};
+
+interface ListedObject {
+  key: string;
+  etag: string;
+}
+
+// ListObjectsV2 of the objects directly under `prefix`, following continuation tokens
+const listObjects = async (config: S3Config, prefix: string): Promise<ListedObject[]> => {
+  const objects: ListedObject[] = [];
+  let token: string | null = null;
+  do {
+    const query: Record<string, string> = { 'list-type': '2', prefix, delimiter: '/' };
+    if (token) query['continuation-token'] = token;
+    const res = await s3Fetch(config, 'GET', null, { query });
+    const xml = new DOMParser().parseFromString(await res!.text(), 'application/xml');
+    xml.querySelectorAll('Contents').forEach(node => {
+      const key = node.querySelector('Key')?.textContent;
+      if (key && key !== prefix) objects.push({ key, etag: node.querySelector('ETag')?.textContent ?? '' });
+    });
+    token = xml.querySelector('IsTruncated')?.textContent === 'true'
+      ? xml.querySelector('NextContinuationToken')?.textContent ?? null
+      : null;
+  } while (token);
+  return objects;
+};
+
+// Folders are key prefixes ending in `/` ('' for the bucket root)
+const toPrefix = (folder: string | null) => {
+  const trimmed = (folder ?? '').replace(/^\/+|\/+$/g, '');
+  return trimmed ? `${trimmed}/` : '';
+};
+
+const baseName = (key: string) => key.slice(key.lastIndexOf('/') + 1);
+
+// Without an exposed ETag header the version falls back to Last-Modified
+const readVersion = (res: Response) => res.headers.get('ETag') ?? res.headers.get('Last-Modified') ?? '';
+
+export const createS3Provider = (config: S3Config): StorageProvider => ({
+  id: `s3-${config.endpoint}-${config.bucket}`,
+  kind: 's3',
+  name: `s3://${config.bucket}/${toPrefix(config.prefix)}`,
+  listImages: async (folderId) => {
+    const prefix = toPrefix(folderId ?? config.prefix);
+    return (await listObjects(config, prefix))
+      .filter(object => hasImageExtension(object.key))
+      .map(object => ({ id: object.key, name: baseName(object.key), folderId: prefix }));
+  },
+  readImage: async (entry) => (await s3Fetch(config, 'GET', entry.id))!.blob(),
+  listLabels: async (folderId, subfolder) => {
+    const labels = new Map<string, StoredLabel>();
+    for (const relative of subfolder ? ['', subfolder] : ['']) {
+      const prefix = toPrefix(`${toPrefix(folderId)}${relative}`);
+      (await listObjects(config, prefix))
+        .filter(object => object.key.toLowerCase().endsWith('.txt'))
+        .forEach(object => labels.set(getLabelPath(baseName(object.key), relative), { id: object.key, version: object.etag }));
+    }
+    return labels;
+  },
+  readLabel: async (label) => (await s3Fetch(config, 'GET', label.id))!.text(),
+  findLabel: async (folderId, subfolder, name) => {
+    const key = `${toPrefix(`${toPrefix(folderId)}${subfolder}`)}${name}`;
+    const res = await s3Fetch(config, 'HEAD', key, { allowNotFound: true });
+    return res && { id: key, version: readVersion(res) };
+  },
+  writeLabel: async (folderId, subfolder, name, content, mimeType) => {
+    const key = `${toPrefix(`${toPrefix(folderId)}${subfolder}`)}${name}`;
+    const res = await s3Fetch(config, 'PUT', key, { headers: { 'Content-Type': mimeType }, body: content });
+    return { id: key, version: readVersion(res!) };
+  },
+});
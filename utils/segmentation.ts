@@ -0,0 +1,18 @@
+import type { AnnotationClass, ImageDimensions, Selection } from '../types';
+import { getSelectionOutline } from './geometry';
+import { getClassIndex } from './classes';
+
+// Ultralytics YOLO segmentation: `class x1 y1 x2 y2 ...`, vertices normalized to 0-1.
+// Plain boxes are written as their four corners so mixed projects still export every object.
+export const formatYoloSegLabels = (selections: Selection[], classes: AnnotationClass[], dimensions: ImageDimensions): string =>
+  selections
+    .map(selection => ({ selection, outline: getSelectionOutline(selection) }))
+    .filter(({ outline }) => outline.length >= 3)
+    .map(({ selection, outline }) => {
+      const clamp = (value: number) => Math.max(0, Math.min(value, 1));
+      const coords = outline
+        .map(({ x, y }) => `${clamp(x / dimensions.naturalWidth).toFixed(6)} ${clamp(y / dimensions.naturalHeight).toFixed(6)}`)
+        .join(' ');
+      return `${getClassIndex(classes, selection.classId)} ${coords}`;
+    })
+    .join('\n');
@@ -0,0 +1,233 @@
+import type { AnnotationClass, ImageDimensions, ImageItem, ImageSource, ImageStatus, Prediction, Proposal, ReviewComment, Selection } from '../types';
+import { getCurrentSelections } from './images';
+import { fromDriveFileMeta } from './storage';
+import { getLegacyStatus } from './review';
+
+const DB_NAME = 'bbox-annotator';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const BLOB_STORE = 'imageBlobs';
+
+// Image blobs are stored once, separately from the session record, so that saving after
+// every edit only rewrites the (small) selections and history.
+interface StoredImage {
+  id: string;
+  fileName: string;
+  dimensions: ImageDimensions | null;
+  history: Selection[][];
+  historyIndex: number;
+  cocoId?: number;
+  // Absent in sessions saved before the review workflow, which have `done` instead
+  status?: ImageStatus;
+  assignee?: string | null;
+  comments?: ReviewComment[];
+  source: ImageSource | null;
+  proposals?: Proposal[];
+  predictions?: Prediction[];
+  done?: boolean;
+  driveFileMeta?: unknown; // Sessions saved before storage providers
+}
+
+interface StoredBlob {
+  key: string; // `${sessionId}/${imageId}`
+  sessionId: string;
+  blob: Blob;
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  imageCount: number;
+  boxCount: number;
+}
+
+interface SessionRecord extends SessionSummary {
+  images: StoredImage[];
+  classes: AnnotationClass[];
+  activeClassId: string | null;
+  currentImageIndex: number;
+}
+
+export interface SessionState {
+  images: ImageItem[];
+  classes: AnnotationClass[];
+  activeClassId: string | null;
+  currentImageIndex: number;
+}
+
+export interface RestoredSession extends SessionState {
+  id: string;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export const isSessionStorageAvailable = () => typeof indexedDB !== 'undefined';
+
+export const createSessionId = () => `session-${Date.now()}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        db.createObjectStore(BLOB_STORE, { keyPath: 'key' }).createIndex('sessionId', 'sessionId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed (e.g. blocked by another tab)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+
+// Undo steps kept per image in a saved session; redo steps are dropped
+const MAX_STORED_HISTORY = 20;
+
+const capHistory = (history: Selection[][], historyIndex: number) => {
+  const start = Math.max(0, historyIndex - MAX_STORED_HISTORY);
+  return { history: history.slice(start, historyIndex + 1), historyIndex: historyIndex - start };
+};
+
+const blobKey = (sessionId: string, imageId: string) => `${sessionId}/${imageId}`;
+
+const describeSession = (images: ImageItem[]) => {
+  if (images.length === 0) return 'Empty session';
+  return images.length === 1 ? images[0].fileName : `${images[0].fileName} +${images.length - 1} more`;
+};
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDb();
+  const records = await requestToPromise<SessionRecord[]>(db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll());
+  return records
+    .map(({ id, name, createdAt, updatedAt, imageCount, boxCount }) => ({ id, name, createdAt, updatedAt, imageCount, boxCount }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Writes the session record, adds blobs for newly queued images and drops blobs of removed ones.
+export const saveSession = async (id: string, state: SessionState): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSION_STORE, BLOB_STORE], 'readwrite');
+  const sessions = tx.objectStore(SESSION_STORE);
+  const blobs = tx.objectStore(BLOB_STORE);
+
+  const [existing, storedKeys] = await Promise.all([
+    requestToPromise<SessionRecord | undefined>(sessions.get(id)),
+    requestToPromise(blobs.index('sessionId').getAllKeys(id)),
+  ]);
+
+  const now = Date.now();
+  const record: SessionRecord = {
+    id,
+    name: describeSession(state.images),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    imageCount: state.images.length,
+    boxCount: state.images.reduce((sum, image) => sum + getCurrentSelections(image).length, 0),
+    images: state.images.map(({ id, fileName, dimensions, history, historyIndex, cocoId, status, assignee, comments, source, proposals, predictions }) => ({
+      id, fileName, dimensions, ...capHistory(history, historyIndex), cocoId, status, assignee, comments, source, proposals, predictions,
+    })),
+    classes: state.classes,
+    activeClassId: state.activeClassId,
+    currentImageIndex: state.currentImageIndex,
+  };
+  sessions.put(record);
+
+  const stored = new Set(storedKeys.map(String));
+  const wanted = new Set<string>();
+  state.images.forEach(image => {
+    const key = blobKey(id, image.id);
+    wanted.add(key);
+    if (!stored.has(key)) blobs.put({ key, sessionId: id, blob: image.blob } as StoredBlob);
+  });
+  stored.forEach(key => {
+    if (!wanted.has(key)) blobs.delete(key);
+  });
+
+  await transactionDone(tx);
+};
+
+export const loadSession = async (id: string): Promise<RestoredSession | null> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSION_STORE, BLOB_STORE]);
+  const [record, storedBlobs] = await Promise.all([
+    requestToPromise<SessionRecord | undefined>(tx.objectStore(SESSION_STORE).get(id)),
+    requestToPromise<StoredBlob[]>(tx.objectStore(BLOB_STORE).index('sessionId').getAll(id)),
+  ]);
+  if (!record) return null;
+
+  const blobsByKey = new Map(storedBlobs.map(stored => [stored.key, stored.blob]));
+  // Images whose blob went missing (e.g. evicted storage) cannot be shown and are dropped
+  const images = record.images
+    .filter(image => blobsByKey.has(blobKey(id, image.id)))
+    .map(({ driveFileMeta, done, ...image }) => {
+      const blob = blobsByKey.get(blobKey(id, image.id))!;
+      const source = image.source ?? fromDriveFileMeta(driveFileMeta);
+      return {
+        ...image,
+        status: image.status ?? getLegacyStatus(done, image.history[image.historyIndex] ?? []),
+        assignee: image.assignee ?? null,
+        comments: image.comments ?? [],
+        source,
+        blob,
+        src: URL.createObjectURL(blob),
+      };
+    });
+
+  return {
+    id,
+    images,
+    classes: record.classes,
+    activeClassId: record.activeClassId,
+    currentImageIndex: Math.min(record.currentImageIndex, Math.max(0, images.length - 1)),
+  };
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSION_STORE, BLOB_STORE], 'readwrite');
+  tx.objectStore(SESSION_STORE).delete(id);
+  const blobs = tx.objectStore(BLOB_STORE);
+  const keys = await requestToPromise(blobs.index('sessionId').getAllKeys(id));
+  keys.forEach(key => blobs.delete(key));
+  await transactionDone(tx);
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
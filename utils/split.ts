@@ -0,0 +1,75 @@
+import type { ImageItem } from '../types';
+import { getCurrentSelections } from './images';
+
+export interface SplitOptions {
+  valRatio: number; // 0-1
+  seed: number;
+  stratify: boolean;
+}
+
+export interface DatasetSplit {
+  train: ImageItem[];
+  val: ImageItem[];
+}
+
+// mulberry32: tiny deterministic PRNG so the same seed always gives the same split.
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// The class that occurs most often in an image decides its stratum; empty images form their own.
+const getDominantClass = (image: ImageItem): string => {
+  const counts = new Map<string, number>();
+  getCurrentSelections(image).forEach(sel => {
+    const key = sel.classId ?? '';
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  let dominant = '__empty__';
+  let max = 0;
+  counts.forEach((count, classId) => {
+    if (count > max || (count === max && classId < dominant)) {
+      dominant = classId;
+      max = count;
+    }
+  });
+  return dominant;
+};
+
+export const splitDataset = (images: ImageItem[], { valRatio, seed, stratify }: SplitOptions): DatasetSplit => {
+  const random = createRandom(seed);
+  const groups = new Map<string, ImageItem[]>();
+  if (stratify) {
+    images.forEach(image => {
+      const key = getDominantClass(image);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(image);
+    });
+  } else {
+    groups.set('all', images);
+  }
+
+  const split: DatasetSplit = { train: [], val: [] };
+  [...groups.keys()].sort().forEach(key => {
+    const shuffled = shuffle(groups.get(key)!, random);
+    const valCount = Math.round(shuffled.length * valRatio);
+    split.val.push(...shuffled.slice(0, valCount));
+    split.train.push(...shuffled.slice(valCount));
+  });
+  return split;
+};
@@ -0,0 +1,150 @@
+import type { AnnotationClass, ImageItem, ImageStatus } from '../types';
+import { getClassById, UNASSIGNED_COLOR } from './classes';
+import { getBoundingRect } from './geometry';
+import { getCurrentSelections } from './images';
+import { IMAGE_STATUSES, IMAGE_STATUS_ORDER } from './review';
+
+export interface BoxStats {
+  fileName: string;
+  classId: string | null;
+  className: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  area: number;
+  aspectRatio: number; // Width over height
+  // Relative to the image size; null for images whose size is unknown
+  normWidth: number | null;
+  normHeight: number | null;
+  normArea: number | null;
+  centerX: number | null;
+  centerY: number | null;
+}
+
+export interface CountEntry {
+  label: string;
+  count: number;
+  color?: string;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface DatasetStats {
+  imageCount: number;
+  boxCount: number;
+  imagesByStatus: CountEntry[];
+  boxesByClass: CountEntry[];
+  boxesPerImage: HistogramBin[];
+  boxes: BoxStats[];
+}
+
+// Equal-width bins over [min, max]; integer data such as counts gets one bin per value when it fits
+export const buildHistogram = (values: number[], binCount = 20, integers = false): HistogramBin[] => {
+  if (values.length === 0) return [];
+  // A loop rather than Math.min(...values), which overflows the stack on large datasets
+  let min = values[0];
+  let max = values[0];
+  values.forEach(value => {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  });
+  if (integers && max - min + 1 <= binCount) {
+    return Array.from({ length: max - min + 1 }, (_, i) => ({
+      from: min + i,
+      to: min + i,
+      count: values.filter(value => value === min + i).length,
+    }));
+  }
+  const width = (max - min) / binCount || 1;
+  const bins = Array.from({ length: binCount }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  values.forEach(value => {
+    bins[Math.min(binCount - 1, Math.floor((value - min) / width))].count++;
+  });
+  return bins;
+};
+
+// Counts of normalized box centers on a size × size grid, rows top to bottom
+export const buildCenterHeatmap = (boxes: BoxStats[], size: number): number[][] => {
+  const grid = Array.from({ length: size }, () => new Array(size).fill(0));
+  boxes.forEach(box => {
+    if (box.centerX === null || box.centerY === null) return;
+    const column = Math.min(size - 1, Math.max(0, Math.floor(box.centerX * size)));
+    const row = Math.min(size - 1, Math.max(0, Math.floor(box.centerY * size)));
+    grid[row][column]++;
+  });
+  return grid;
+};
+
+// Rotated boxes and polygons are measured by their axis-aligned envelope, as YOLO exports them
+export const computeDatasetStats = (images: ImageItem[], classes: AnnotationClass[]): DatasetStats => {
+  const boxes: BoxStats[] = [];
+  const perImage: number[] = [];
+  const statusCounts = new Map<ImageStatus, number>();
+
+  images.forEach(image => {
+    const selections = getCurrentSelections(image);
+    perImage.push(selections.length);
+    statusCounts.set(image.status, (statusCounts.get(image.status) ?? 0) + 1);
+
+    const dims = image.dimensions;
+    selections.forEach(selection => {
+      const rect = getBoundingRect(selection, dims?.naturalWidth, dims?.naturalHeight);
+      const cls = getClassById(classes, selection.classId);
+      boxes.push({
+        fileName: image.fileName,
+        classId: cls?.id ?? null,
+        className: cls?.name ?? 'Unassigned',
+        ...rect,
+        area: rect.width * rect.height,
+        aspectRatio: rect.height > 0 ? rect.width / rect.height : 0,
+        normWidth: dims ? rect.width / dims.naturalWidth : null,
+        normHeight: dims ? rect.height / dims.naturalHeight : null,
+        normArea: dims ? (rect.width * rect.height) / (dims.naturalWidth * dims.naturalHeight) : null,
+        centerX: dims ? (rect.x + rect.width / 2) / dims.naturalWidth : null,
+        centerY: dims ? (rect.y + rect.height / 2) / dims.naturalHeight : null,
+      });
+    });
+  });
+
+  const boxesByClass: CountEntry[] = classes.map(cls => ({
+    label: cls.name,
+    color: cls.color,
+    count: boxes.filter(box => box.classId === cls.id).length,
+  }));
+  const unassigned = boxes.filter(box => box.classId === null).length;
+  if (unassigned > 0) boxesByClass.push({ label: 'Unassigned', color: UNASSIGNED_COLOR, count: unassigned });
+
+  return {
+    imageCount: images.length,
+    boxCount: boxes.length,
+    imagesByStatus: IMAGE_STATUS_ORDER.map(status => ({ ...IMAGE_STATUSES[status], count: statusCounts.get(status) ?? 0 })),
+    boxesByClass,
+    boxesPerImage: buildHistogram(perImage, 20, true),
+    boxes,
+  };
+};
+
+const CSV_COLUMNS: (keyof BoxStats)[] = [
+  'fileName', 'className', 'x', 'y', 'width', 'height', 'area', 'aspectRatio',
+  'normWidth', 'normHeight', 'normArea', 'centerX', 'centerY',
+];
+
+// Spreadsheet apps run text starting with one of these as a formula, so it gets a leading quote
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string | number | null) => {
+  if (value === null) return '';
+  const text = typeof value === 'number'
+    ? String(Math.round(value * 1e6) / 1e6)
+    : FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per box, for spreadsheets and data reports
+export const formatStatsCsv = (stats: DatasetStats): string =>
+  [CSV_COLUMNS.join(','), ...stats.boxes.map(box => CSV_COLUMNS.map(column => escapeCsv(box[column])).join(','))].join('\n') + '\n';
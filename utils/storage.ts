@@ -0,0 +1,127 @@
+import type { ImageItem, ImageSource, StorageKind } from '../types';
+import { createImageItem, getBaseName } from './images';
+
+export const DRIVE_PROVIDER_ID = 'drive';
+const LOAD_CONCURRENCY = 4;
+
+export interface StorageEntry {
+  id: string;
+  name: string;
+  folderId: string | null;
+}
+
+// A label file as seen by a provider; `version` changes whenever the file is written
+export interface StoredLabel {
+  id: string;
+  version: string;
+}
+
+// Everything the app needs from a place images live in. Folders are identified by `folderId`
+// (Drive folder id, directory path or key prefix) and label files by name, optionally inside
+// `subfolder` of the image's folder.
+export interface StorageProvider {
+  id: string;
+  kind: StorageKind;
+  name: string; // Shown in the UI, e.g. "photos (local folder)"
+  listImages: (folderId: string | null) => Promise<StorageEntry[]>;
+  readImage: (entry: StorageEntry) => Promise<Blob>;
+  // Label files of the folder and of `subfolder` inside it, keyed by path relative to the folder
+  listLabels: (folderId: string | null, subfolder: string) => Promise<Map<string, StoredLabel>>;
+  readLabel: (label: StoredLabel) => Promise<string>;
+  findLabel: (folderId: string | null, subfolder: string, name: string) => Promise<StoredLabel | null>;
+  // Replaces `existing` when given, otherwise creates the file (and `subfolder` if needed)
+  writeLabel: (folderId: string | null, subfolder: string, name: string, content: string, mimeType: string, existing: StoredLabel | null) => Promise<StoredLabel>;
+}
+
+export const STORAGE_KIND_LABELS: Record<StorageKind, string> = {
+  drive: 'Drive',
+  local: 'folder',
+  s3: 'S3',
+};
+
+export const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.gif', '.bmp'];
+
+export const hasImageExtension = (name: string) => IMAGE_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext));
+
+export const getLabelPath = (name: string, subfolder: string) => (subfolder ? `${subfolder}/${name}` : name);
+
+export const toStorageEntry = ({ id, name, folderId }: ImageSource): StorageEntry => ({ id, name, folderId });
+
+// Images opened before storage providers existed only carried Drive metadata
+interface DriveFileMeta {
+  id: string;
+  name: string;
+  parentId?: string | null;
+  labelFiles?: Record<string, { modifiedTime?: unknown } | null>;
+}
+
+const isDriveFileMeta = (value: unknown): value is DriveFileMeta =>
+  typeof value === 'object' && value !== null
+  && typeof (value as DriveFileMeta).id === 'string' && typeof (value as DriveFileMeta).name === 'string';
+
+export const fromDriveFileMeta = (meta: unknown): ImageSource | null => {
+  if (!isDriveFileMeta(meta)) return null;
+  const labelVersions: Record<string, string> = {};
+  Object.entries(meta.labelFiles ?? {}).forEach(([path, file]) => {
+    if (typeof file?.modifiedTime === 'string') labelVersions[path] = file.modifiedTime;
+  });
+  return {
+    kind: 'drive',
+    providerId: DRIVE_PROVIDER_ID,
+    id: meta.id,
+    name: meta.name,
+    folderId: typeof meta.parentId === 'string' ? meta.parentId : null,
+    ...(Object.keys(labelVersions).length > 0 && { labelVersions }),
+  };
+};
+
+export interface StorageLoadResult {
+  items: ImageItem[];
+  labelFiles: { file: File; target: ImageItem }[]; // YOLO labels found for the items, ready for importYoloFiles
+  failed: { name: string; message: string }[]; // Entries that could not be downloaded
+}
+
+// Downloads `entries` with their YOLO labels, preferring the copy in `subfolder` over the one
+// next to the image. The label version is remembered so saving can detect edits made elsewhere.
+// A failed download is reported in `failed` without affecting the other entries.
+export const loadStorageEntries = async (provider: StorageProvider, entries: StorageEntry[], subfolder: string): Promise<StorageLoadResult> => {
+  const labelsByFolder = new Map<string | null, Promise<Map<string, StoredLabel>>>();
+  const listLabels = (folderId: string | null) => {
+    if (!labelsByFolder.has(folderId)) labelsByFolder.set(folderId, provider.listLabels(folderId, subfolder));
+    return labelsByFolder.get(folderId)!;
+  };
+
+  const items: ImageItem[] = [];
+  const labelFiles: StorageLoadResult['labelFiles'] = [];
+  const failed: StorageLoadResult['failed'] = [];
+  for (let i = 0; i < entries.length; i += LOAD_CONCURRENCY) {
+    const batch = entries.slice(i, i + LOAD_CONCURRENCY);
+    const results = await Promise.allSettled(batch.map(async entry => {
+      const labels = await listLabels(entry.folderId);
+      const labelName = `${getBaseName(entry.name)}.txt`;
+      const labelPath = [subfolder && getLabelPath(labelName, subfolder), labelName].find(path => path && labels.has(path));
+      const label = labelPath ? labels.get(labelPath)! : null;
+      const [blob, labelText] = await Promise.all([
+        provider.readImage(entry),
+        label ? provider.readLabel(label) : null,
+      ]);
+      const item = await createImageItem(blob, entry.name, {
+        kind: provider.kind,
+        providerId: provider.id,
+        ...entry,
+        ...(label && labelPath && { labelVersions: { [labelPath]: label.version } }),
+      });
+      return { item, label: labelText === null ? null : new File([labelText], labelName) };
+    }));
+    results.forEach((result, j) => {
+      if (result.status === 'rejected') {
+        failed.push({ name: batch[j].name, message: (result.reason as Error)?.message ?? String(result.reason) });
+        return;
+      }
+      const { item, label } = result.value;
+      items.push(item);
+      if (label) labelFiles.push({ file: label, target: item });
+    });
+  }
+  return { items, labelFiles, failed };
+};
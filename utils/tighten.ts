@@ -0,0 +1,129 @@
+import type { Selection } from '../types';
+import { Rect, applyRect, clampRect, getSelectionRect } from './geometry';
+
+// Hand-drawn boxes tend to be a few pixels loose. Tightening moves each edge inwards to the first
+// row/column that looks like object rather than background, judged by the color difference from
+// the background just outside the box or by a strong edge (Sobel gradient).
+export interface TightenOptions {
+  threshold: number; // RGB distance from the background that counts as object
+  maxShrink: number; // Largest share of the box's width/height a single edge may move
+}
+
+export const DEFAULT_TIGHTEN_OPTIONS: TightenOptions = {
+  threshold: 40,
+  maxShrink: 0.3,
+};
+
+const RING_WIDTH = 4; // Pixels outside the box sampled as background
+const MIN_EDGE_SHARE = 0.03; // Share of a row/column that must be object for an edge to stop there
+const MIN_EDGE_PIXELS = 2; // Lone noisy pixels never stop an edge
+
+// Draws a loaded image onto an offscreen canvas; blob and object URLs never taint it
+export const readImagePixels = (image: HTMLImageElement): ImageData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Median color of the ring around the box, or of the box's own outline when it fills the image
+const estimateBackground = (pixels: ImageData, rect: Rect): [number, number, number] => {
+  const { width, height, data } = pixels;
+  const channels: number[][] = [[], [], []];
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    channels.forEach((values, c) => values.push(data[i + c]));
+  };
+  const x0 = Math.max(0, rect.x - RING_WIDTH);
+  const y0 = Math.max(0, rect.y - RING_WIDTH);
+  const x1 = Math.min(width, rect.x + rect.width + RING_WIDTH);
+  const y1 = Math.min(height, rect.y + rect.height + RING_WIDTH);
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const isInside = x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height;
+      if (!isInside) sample(x, y);
+    }
+  }
+  if (channels[0].length === 0) {
+    for (let x = rect.x; x < rect.x + rect.width; x++) {
+      sample(x, rect.y);
+      sample(x, rect.y + rect.height - 1);
+    }
+  }
+  return [median(channels[0]), median(channels[1]), median(channels[2])];
+};
+
+// Returns the tightened rectangle, or null when nothing inside the box stands out from the background
+export const tightenRect = (pixels: ImageData, rect: Rect, options: TightenOptions = DEFAULT_TIGHTEN_OPTIONS): Rect | null => {
+  const { width: imageWidth, height: imageHeight, data } = pixels;
+  const box = clampRect(rect, imageWidth, imageHeight);
+  if (box.width < 3 || box.height < 3) return null;
+
+  const [bgR, bgG, bgB] = estimateBackground(pixels, box);
+  const gray = (x: number, y: number) => {
+    const i = (Math.max(0, Math.min(y, imageHeight - 1)) * imageWidth + Math.max(0, Math.min(x, imageWidth - 1))) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+  // A step of `threshold` gray levels gives a Sobel magnitude of 4 × threshold
+  const gradientThreshold = options.threshold * 4;
+
+  const columnCounts = new Array(box.width).fill(0);
+  const rowCounts = new Array(box.height).fill(0);
+  for (let y = 0; y < box.height; y++) {
+    for (let x = 0; x < box.width; x++) {
+      const px = box.x + x;
+      const py = box.y + y;
+      const i = (py * imageWidth + px) * 4;
+      const distance = Math.hypot(data[i] - bgR, data[i + 1] - bgG, data[i + 2] - bgB);
+      let isObject = distance > options.threshold;
+      if (!isObject) {
+        const gx = gray(px + 1, py - 1) + 2 * gray(px + 1, py) + gray(px + 1, py + 1)
+          - gray(px - 1, py - 1) - 2 * gray(px - 1, py) - gray(px - 1, py + 1);
+        const gy = gray(px - 1, py + 1) + 2 * gray(px, py + 1) + gray(px + 1, py + 1)
+          - gray(px - 1, py - 1) - 2 * gray(px, py - 1) - gray(px + 1, py - 1);
+        isObject = Math.hypot(gx, gy) > gradientThreshold;
+      }
+      if (isObject) {
+        columnCounts[x]++;
+        rowCounts[y]++;
+      }
+    }
+  }
+
+  const minColumn = Math.max(MIN_EDGE_PIXELS, Math.ceil(box.height * MIN_EDGE_SHARE));
+  const minRow = Math.max(MIN_EDGE_PIXELS, Math.ceil(box.width * MIN_EDGE_SHARE));
+  const first = (counts: number[], min: number) => counts.findIndex(count => count >= min);
+  const last = (counts: number[], min: number) => {
+    for (let i = counts.length - 1; i >= 0; i--) if (counts[i] >= min) return i;
+    return -1;
+  };
+  const left = first(columnCounts, minColumn);
+  const top = first(rowCounts, minRow);
+  if (left === -1 || top === -1) return null;
+  const right = last(columnCounts, minColumn) + 1;
+  const bottom = last(rowCounts, minRow) + 1;
+
+  const maxX = Math.floor(box.width * options.maxShrink);
+  const maxY = Math.floor(box.height * options.maxShrink);
+  const x0 = Math.min(left, maxX);
+  const y0 = Math.min(top, maxY);
+  const x1 = Math.max(right, box.width - maxX);
+  const y1 = Math.max(bottom, box.height - maxY);
+  return { x: box.x + x0, y: box.y + y0, width: x1 - x0, height: y1 - y0 };
+};
+
+// Locked, rotated and polygon selections are left alone, as are boxes that would not change
+export const tightenSelection = (pixels: ImageData, selection: Selection, options?: TightenOptions): Selection | null => {
+  if (selection.locked || selection.angle || selection.points) return null;
+  const rect = getSelectionRect(selection);
+  const tightened = tightenRect(pixels, rect, options);
+  if (!tightened || (tightened.x === rect.x && tightened.y === rect.y && tightened.width === rect.width && tightened.height === rect.height)) return null;
+  return applyRect(selection, tightened);
+};
@@ -0,0 +1,36 @@
+// Describes how the image is laid out inside the canvas container:
+// the image's top-left corner sits at (panX, panY) and is drawn `zoom` screen pixels per image pixel.
+export interface Viewport {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+export const MIN_ZOOM = 0.02;
+export const MAX_ZOOM = 32;
+export const WHEEL_ZOOM_STEP = 1.15;
+
+export const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(zoom, MAX_ZOOM));
+
+export const centerViewport = (containerWidth: number, containerHeight: number, imageWidth: number, imageHeight: number, zoom: number): Viewport => ({
+  zoom,
+  panX: (containerWidth - imageWidth * zoom) / 2,
+  panY: (containerHeight - imageHeight * zoom) / 2,
+});
+
+// Never enlarges small images when fitting; 1:1 is available explicitly.
+export const fitViewport = (containerWidth: number, containerHeight: number, imageWidth: number, imageHeight: number): Viewport => {
+  const zoom = clampZoom(Math.min(containerWidth / imageWidth, containerHeight / imageHeight, 1));
+  return centerViewport(containerWidth, containerHeight, imageWidth, imageHeight, zoom);
+};
+
+// Keeps the image pixel under (x, y) (container coordinates) fixed while zooming.
+export const zoomAroundPoint = (viewport: Viewport, newZoom: number, x: number, y: number): Viewport => {
+  const zoom = clampZoom(newZoom);
+  const ratio = zoom / viewport.zoom;
+  return {
+    zoom,
+    panX: x - (x - viewport.panX) * ratio,
+    panY: y - (y - viewport.panY) * ratio,
+  };
+};
@@ -0,0 +1,63 @@
+import type { AnnotationClass, ImageDimensions } from '../types';
+import type { LabeledRect } from './yolo';
+import { getClassById } from './classes';
+
+export interface VocRect extends LabeledRect {
+  difficult?: boolean;
+  truncated?: boolean;
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Pascal VOC uses 1-based, inclusive pixel coordinates.
+export const formatVocXml = (
+  fileName: string,
+  rects: VocRect[],
+  classes: AnnotationClass[],
+  dimensions: ImageDimensions,
+  folder = 'images',
+): string => {
+  const objects = rects
+    .filter(rect => rect.width > 0 && rect.height > 0)
+    .map(rect => {
+      const name = getClassById(classes, rect.classId)?.name ?? classes[0]?.name ?? 'object';
+      const xmin = Math.max(1, rect.x + 1);
+      const ymin = Math.max(1, rect.y + 1);
+      const xmax = Math.min(dimensions.naturalWidth, rect.x + rect.width);
+      const ymax = Math.min(dimensions.naturalHeight, rect.y + rect.height);
+      return [
+        '  <object>',
+        `    <name>${escapeXml(name)}</name>`,
+        '    <pose>Unspecified</pose>',
+        `    <truncated>${rect.truncated ? 1 : 0}</truncated>`,
+        `    <difficult>${rect.difficult ? 1 : 0}</difficult>`,
+        '    <bndbox>',
+        `      <xmin>${xmin}</xmin>`,
+        `      <ymin>${ymin}</ymin>`,
+        `      <xmax>${xmax}</xmax>`,
+        `      <ymax>${ymax}</ymax>`,
+        '    </bndbox>',
+        '  </object>',
+      ].join('\n');
+    });
+
+  return [
+    '<annotation>',
+    `  <folder>${escapeXml(folder)}</folder>`,
+    `  <filename>${escapeXml(fileName)}</filename>`,
+    '  <size>',
+    `    <width>${dimensions.naturalWidth}</width>`,
+    `    <height>${dimensions.naturalHeight}</height>`,
+    '    <depth>3</depth>',
+    '  </size>',
+    '  <segmented>0</segmented>',
+    ...objects,
+    '</annotation>',
+  ].join('\n');
+};
@@ -0,0 +1,108 @@
+import type { AnnotationClass, ImageDimensions, Point } from '../types';
+import type { Rect } from './geometry';
+import { getClassIndex } from './classes';
+
+export interface LabeledRect extends Rect {
+  classId?: string;
+}
+
+export interface ParsedYoloBox {
+  classIndex: number;
+  start: Point;
+  end: Point;
+  score?: number; // Confidence, only in prediction files
+}
+
+export interface LabelParseError {
+  line: number;
+  text: string;
+  message: string;
+}
+
+export interface YoloParseResult {
+  boxes: ParsedYoloBox[];
+  errors: LabelParseError[];
+}
+
+// Normalized values slightly outside [0, 1] are common after rounding in other tools.
+const NORMALIZED_TOLERANCE = 1e-3;
+
+// Imports add a class for every index up to the highest one, so larger indices are treated as corrupt
+const MAX_CLASS_INDEX = 999;
+
+export const formatYoloLabels = (rects: LabeledRect[], classes: AnnotationClass[], dimensions: ImageDimensions): string =>
+  rects
+    .filter(rect => rect.width > 0 && rect.height > 0)
+    .map(rect => {
+      const x_center = (rect.x + rect.width / 2) / dimensions.naturalWidth;
+      const y_center = (rect.y + rect.height / 2) / dimensions.naturalHeight;
+      const width = rect.width / dimensions.naturalWidth;
+      const height = rect.height / dimensions.naturalHeight;
+
+      const classIndex = getClassIndex(classes, rect.classId);
+      return `${classIndex} ${x_center.toFixed(6)} ${y_center.toFixed(6)} ${width.toFixed(6)} ${height.toFixed(6)}`;
+    })
+    .join('\n');
+
+// Prediction files (`withConfidence`) may carry a sixth column with the model's confidence.
+export const parseYoloLabels = (text: string, dimensions: ImageDimensions, withConfidence = false): YoloParseResult => {
+  const boxes: ParsedYoloBox[] = [];
+  const errors: LabelParseError[] = [];
+  const clamp = (value: number) => Math.max(0, Math.min(value, 1));
+
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const report = (message: string) => errors.push({ line: i + 1, text: line, message });
+    const fields = line.split(/\s+/);
+    if (fields.length !== 5 && !(withConfidence && fields.length === 6)) {
+      report(withConfidence
+        ? `Expected 5 or 6 values (class x_center y_center width height [confidence]), got ${fields.length}`
+        : `Expected 5 values (class x_center y_center width height), got ${fields.length}`);
+      return;
+    }
+
+    const [classField, ...coordFields] = fields.slice(0, 5);
+    const score = fields.length === 6 ? Number(fields[5]) : undefined;
+    if (score !== undefined && !(score >= 0 && score <= 1)) {
+      report(`Invalid confidence "${fields[5]}"`);
+      return;
+    }
+    const classIndex = Number(classField);
+    if (!Number.isInteger(classIndex) || classIndex < 0) {
+      report(`Invalid class index "${classField}"`);
+      return;
+    }
+    if (classIndex > MAX_CLASS_INDEX) {
+      report(`Class index ${classIndex} is above the supported maximum of ${MAX_CLASS_INDEX}`);
+      return;
+    }
+
+    const values = coordFields.map(Number);
+    if (values.some(v => !Number.isFinite(v))) {
+      report('Coordinates must be numbers');
+      return;
+    }
+    if (values.some(v => v < -NORMALIZED_TOLERANCE || v > 1 + NORMALIZED_TOLERANCE)) {
+      report('Coordinates must be normalized to the range 0-1');
+      return;
+    }
+
+    const [xCenter, yCenter, width, height] = values.map(clamp);
+    if (width === 0 || height === 0) {
+      report('Box has zero width or height');
+      return;
+    }
+
+    const { naturalWidth, naturalHeight } = dimensions;
+    boxes.push({
+      classIndex,
+      start: { x: clamp(xCenter - width / 2) * naturalWidth, y: clamp(yCenter - height / 2) * naturalHeight },
+      end: { x: clamp(xCenter + width / 2) * naturalWidth, y: clamp(yCenter + height / 2) * naturalHeight },
+      ...(score !== undefined && { score }),
+    });
+  });
+
+  return { boxes, errors };
+};